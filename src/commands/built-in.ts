@@ -1,6 +1,17 @@
-import type { CommandHandler, ExecutionContext, SelectorValue } from "../types"
+import type {
+    CommandHandler,
+    ExecutionContext,
+    MaybePromise,
+    PropertyPathSegment,
+    SelectorValue,
+    SubPipeline,
+    WarningCode,
+} from "../types"
 import { commandRegistry } from "./registry"
 import { ErrorFactory } from "../core/errors"
+import { reportSoftError } from "../core/warnings"
+import { chain, chainAll, recover } from "../core/async"
+import type { EventEmitter } from "../core/event-emitter"
 
 /**
  * Built-in commands for SuperSelector
@@ -37,73 +48,109 @@ const cssSelectorCommand: CommandHandler = {
     description: "Select elements using CSS selector syntax",
 }
 
+// XPath command
+const xpathCommand: CommandHandler = {
+    execute(context: ExecutionContext, expression: string): SelectorValue {
+        const { currentValue } = context
+
+        if (currentValue instanceof Element || currentValue instanceof Document) {
+            const nodes = evaluateXPath(expression, currentValue)
+            if (nodes.length === 0) return null
+            return nodes.length === 1 ? nodes[0] : nodes
+        } else if (Array.isArray(currentValue)) {
+            const results: Node[] = []
+            for (const item of currentValue) {
+                if (item instanceof Element) {
+                    results.push(...evaluateXPath(expression, item))
+                }
+            }
+            return results.length > 0 ? results : null
+        }
+
+        return null
+    },
+    validate(args: any[]): boolean {
+        return args.length === 1 && typeof args[0] === "string"
+    },
+    description: "Select nodes using an XPath expression; relative paths such as './/td' start at the current element",
+}
+
+/**
+ * Evaluates an XPath expression with `contextNode` as the context node, returning the matched nodes in document order.
+ */
+function evaluateXPath(expression: string, contextNode: Element | Document): Node[] {
+    const document = contextNode instanceof Document ? contextNode : contextNode.ownerDocument
+    let snapshot: XPathResult
+
+    try {
+        snapshot = document.evaluate(expression, contextNode, null, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, null)
+    } catch (error) {
+        throw ErrorFactory.execution(
+            `Invalid XPath expression '${expression}': ${error instanceof Error ? error.message : String(error)}`,
+        )
+    }
+
+    const nodes: Node[] = []
+    for (let i = 0; i < snapshot.snapshotLength; i++) {
+        nodes.push(snapshot.snapshotItem(i)!)
+    }
+    return nodes
+}
+
 // Property access command
 const propertyCommand: CommandHandler = {
     execute(context: ExecutionContext, propertyName: string): SelectorValue {
         const { currentValue } = context
-        let err: import("../types").SuperSelectorError | undefined
 
         if (currentValue === null || currentValue === undefined) {
-            if (!context.hadSoftError) {
-                // Record only the first soft error
-                context.hadSoftError = true
-                err = ErrorFactory.execution(
-                    `Cannot access property '${propertyName}' on null or undefined value`,
-                    undefined, // Command is not directly known here, could be passed if needed
-                    context,
-                )
-                context.softError = err
-            }
+            const err = ErrorFactory.execution(
+                `Cannot access property '${propertyName}' on null or undefined value`,
+                undefined, // Command is not directly known here; the engine tags the warning with it
+                context,
+            )
+            reportSoftError(context, "NULL_VALUE", err)
             if (context.config.errorHandling === "throw") {
-                throw err || context.softError // Throw the specific error encountered
+                throw err // Throw the specific error encountered
             }
             return context.config.errorHandling === "return-default" ? context.config.defaultValue : null
         }
 
         if (Array.isArray(currentValue)) {
             const results: any[] = []
-            let itemHadError = false
-            for (const item of currentValue) {
+            currentValue.forEach((item, index) => {
                 if (item && typeof item === "object" && propertyName in item) {
                     results.push(item[propertyName])
                 } else {
                     results.push(null) // Maintain array structure even if prop not found
-                    if (item !== null && item !== undefined) itemHadError = true // Mark if a valid item didn't have the prop
+                    // Report each valid item that didn't have the prop
+                    if (item !== null && item !== undefined) {
+                        const err = ErrorFactory.execution(
+                            `Property '${propertyName}' not found on item ${index} of the array`,
+                            undefined,
+                            context,
+                        )
+                        reportSoftError(context, "PROPERTY_NOT_FOUND", err, index)
+                    }
                 }
-            }
-            if (itemHadError && !context.hadSoftError) {
-                context.hadSoftError = true
-                // Generic error as it's per item
-                context.softError = ErrorFactory.execution(
-                    `Property '${propertyName}' not found on one or more items in array`,
-                    undefined,
-                    context,
-                )
-            }
+            })
             if (results.every((r) => r === null) && currentValue.length > 0) return null
             return results.length > 0 ? results : null
         } else if (currentValue && typeof currentValue === "object" && propertyName in currentValue) {
             return (currentValue as any)[propertyName]
         } else if (currentValue && (typeof currentValue === "object" || typeof currentValue === "function")) {
             // Check if it's an object but prop not found
-            if (!context.hadSoftError) {
-                context.hadSoftError = true
-                err = ErrorFactory.execution(`Property '${propertyName}' not found on target object.`, undefined, context)
-                context.softError = err
-            }
-            if (context.config.errorHandling === "throw") throw err || context.softError
+            const err = ErrorFactory.execution(`Property '${propertyName}' not found on target object.`, undefined, context)
+            reportSoftError(context, "PROPERTY_NOT_FOUND", err)
+            if (context.config.errorHandling === "throw") throw err
             return context.config.errorHandling === "return-default" ? context.config.defaultValue : null
         }
 
         // Default to null if property cannot be accessed and not handled above
-        if (!context.hadSoftError) {
-            context.hadSoftError = true
-            context.softError = ErrorFactory.execution(
-                `Property '${propertyName}' could not be accessed.`,
-                undefined,
-                context,
-            )
-        }
+        reportSoftError(
+            context,
+            "PROPERTY_NOT_FOUND",
+            ErrorFactory.execution(`Property '${propertyName}' could not be accessed.`, undefined, context),
+        )
         return context.config.errorHandling === "return-default" ? context.config.defaultValue : null
     },
     validate(args: any[]): boolean {
@@ -112,41 +159,100 @@ const propertyCommand: CommandHandler = {
     description: "Access a property of the current value",
 }
 
+// Property path command, e.g. `dataset.itemId`, `style?.display` or `attributes['data-x']`
+const formatPropertyPath = (segments: PropertyPathSegment[]): string =>
+    segments
+        .map((segment, index) => {
+            const key = /^[A-Za-z_$][\w$]*$/.test(segment.key) ? segment.key : `[${JSON.stringify(segment.key)}]`
+            const separator = segment.optional ? "?." : index === 0 || key.startsWith("[") ? "" : "."
+            return separator + key
+        })
+        .join("")
+
+const propertyPathCommand: CommandHandler = {
+    execute(context: ExecutionContext, segments: PropertyPathSegment[]): SelectorValue {
+        const { currentValue } = context
+        const path = formatPropertyPath(segments)
+        let failure: { code: WarningCode; message: string } | undefined
+
+        const walk = (item: any): any => {
+            failure = undefined
+            let current = item
+            for (let i = 0; i < segments.length; i++) {
+                const { key, optional } = segments[i]
+                if (current === null || current === undefined) {
+                    if (optional) return null
+                    const found = current === null ? "null" : "undefined"
+                    failure = { code: "NULL_VALUE", message: `Cannot read '${key}' of ${found} at segment ${i + 1} of '${path}'` }
+                    return null
+                }
+                if (!(key in Object(current))) {
+                    if (optional) return null
+                    const message = `Property '${key}' not found at segment ${i + 1} of '${path}'`
+                    failure = { code: "PROPERTY_NOT_FOUND", message }
+                    return null
+                }
+                current = current[key]
+            }
+            return current === undefined ? null : current
+        }
+
+        if (Array.isArray(currentValue)) {
+            const results = currentValue.map((item, index) => {
+                const result = walk(item)
+                if (failure) {
+                    const err = ErrorFactory.execution(`${failure.message} on item ${index} of the array`, undefined, context)
+                    reportSoftError(context, failure.code, err, index)
+                }
+                return result
+            })
+            if (results.every((r) => r === null) && currentValue.length > 0) return null
+            return results.length > 0 ? results : null
+        }
+
+        const result = walk(currentValue)
+        if (failure) {
+            const err = ErrorFactory.execution(failure.message, undefined, context)
+            reportSoftError(context, failure.code, err)
+            if (context.config.errorHandling === "throw") throw err
+            return context.config.errorHandling === "return-default" ? context.config.defaultValue : null
+        }
+        return result
+    },
+    validate(args: any[]): boolean {
+        return args.length === 1 && Array.isArray(args[0]) && args[0].length > 0
+    },
+    description: "Walk a property path; segments reached through '?.' return null instead of failing",
+}
+
 // Array access command
 const arrayAccessCommand: CommandHandler = {
     execute(context: ExecutionContext, index: number): SelectorValue {
         const { currentValue } = context
-        let err: import("../types").SuperSelectorError | undefined
 
         if (Array.isArray(currentValue)) {
             const actualIndex = index < 0 ? currentValue.length + index : index
             if (actualIndex >= 0 && actualIndex < currentValue.length) {
                 return currentValue[actualIndex]
             } else {
-                if (!context.hadSoftError) {
-                    context.hadSoftError = true
-                    err = ErrorFactory.execution(
-                        `Index ${index} out of bounds for array of length ${currentValue.length}`,
-                        undefined,
-                        context,
-                    )
-                    context.softError = err
-                }
-                if (context.config.errorHandling === "throw") throw err || context.softError
-                return context.config.errorHandling === "return-default" ? context.config.defaultValue : null
-            }
-        } else {
-            // Not an array
-            if (!context.hadSoftError) {
-                context.hadSoftError = true
-                err = ErrorFactory.execution(
-                    `Cannot apply array access to non-array type: ${typeof currentValue}`,
+                const err = ErrorFactory.execution(
+                    `Index ${index} out of bounds for array of length ${currentValue.length}`,
                     undefined,
                     context,
                 )
-                context.softError = err
+                reportSoftError(context, "INDEX_OUT_OF_BOUNDS", err)
+                if (context.config.errorHandling === "throw") throw err
+                return context.config.errorHandling === "return-default" ? context.config.defaultValue : null
             }
-            if (context.config.errorHandling === "throw") throw err || context.softError
+        } else {
+            // Not an array
+            const err = ErrorFactory.execution(
+                `Cannot apply array access to non-array type: ${typeof currentValue}`,
+                undefined,
+                context,
+            )
+            reportSoftError(context, "NOT_AN_ARRAY", err)
+            if (context.config.errorHandling === "throw") throw err
             return context.config.errorHandling === "return-default" ? context.config.defaultValue : null
         }
     },
@@ -156,6 +262,51 @@ const arrayAccessCommand: CommandHandler = {
     description: "Access an element at a specific index in an array",
 }
 
+// Array slice command
+const arraySliceCommand: CommandHandler = {
+    execute(context: ExecutionContext, start: number | null, end: number | null, step: number | null): SelectorValue {
+        const { currentValue } = context
+
+        if (!Array.isArray(currentValue) || step === 0) {
+            const err = ErrorFactory.execution(
+                step === 0 ? `Slice step cannot be zero` : `Cannot apply array slice to non-array type: ${typeof currentValue}`,
+                undefined,
+                context,
+            )
+            reportSoftError(context, step === 0 ? "INVALID_ARGUMENT" : "NOT_AN_ARRAY", err)
+            if (context.config.errorHandling === "throw") throw err
+            return context.config.errorHandling === "return-default" ? context.config.defaultValue : null
+        }
+
+        const length = currentValue.length
+        const actualStep = step ?? 1
+        const resolve = (index: number, min: number, max: number) =>
+            Math.min(Math.max(index < 0 ? index + length : index, min), max)
+
+        const results: any[] = []
+        if (actualStep > 0) {
+            const from = start === null ? 0 : resolve(start, 0, length)
+            const to = end === null ? length : resolve(end, 0, length)
+            for (let i = from; i < to; i += actualStep) {
+                results.push(currentValue[i])
+            }
+        } else {
+            // Negative steps walk backwards, so the bounds are clamped to [-1, length - 1]
+            const from = start === null ? length - 1 : resolve(start, -1, length - 1)
+            const to = end === null ? -1 : resolve(end, -1, length - 1)
+            for (let i = from; i > to; i += actualStep) {
+                results.push(currentValue[i])
+            }
+        }
+
+        return results.length > 0 ? results : null
+    },
+    validate(args: any[]): boolean {
+        return args.length === 3 && args.every((arg) => arg === null || Number.isInteger(arg))
+    },
+    description: "Slice an array using start:end:step bounds (negative values count from the end)",
+}
+
 // Get property command (alias for property access)
 const getPropCommand: CommandHandler = {
     execute(context: ExecutionContext, propertyName: string): SelectorValue {
@@ -167,11 +318,29 @@ const getPropCommand: CommandHandler = {
     description: "Get a property value (alias for property access)",
 }
 
+// Variable command
+const varCommand: CommandHandler = {
+    execute(context: ExecutionContext, name: string): SelectorValue {
+        const { variables } = context
+        if (variables && Object.prototype.hasOwnProperty.call(variables, name)) {
+            return variables[name]
+        }
+
+        const err = ErrorFactory.execution(`Unknown variable '${name}'`, undefined, context)
+        reportSoftError(context, "UNKNOWN_VARIABLE", err)
+        if (context.config.errorHandling === "throw") throw err
+        return context.config.errorHandling === "return-default" ? context.config.defaultValue : null
+    },
+    validate(args: any[]): boolean {
+        return args.length === 1 && typeof args[0] === "string"
+    },
+    description: "Get a variable passed in the execute options",
+}
+
 // Recursive property command
 const recursivePropCommand: CommandHandler = {
     execute(context: ExecutionContext, propertyName: string, times: string | number = 1): SelectorValue {
         const numTimes = typeof times === "string" ? Number.parseInt(times, 10) : times
-        let err: import("../types").SuperSelectorError | undefined
 
         if (isNaN(numTimes) || numTimes <= 0) {
             return context.currentValue
@@ -182,16 +351,13 @@ const recursivePropCommand: CommandHandler = {
             if (current && typeof current === "object" && propertyName in current) {
                 current = (current as any)[propertyName]
             } else {
-                if (!context.hadSoftError) {
-                    context.hadSoftError = true
-                    err = ErrorFactory.execution(
-                        `Recursive property '${propertyName}' access failed at depth ${i + 1}`,
-                        undefined,
-                        context,
-                    )
-                    context.softError = err
-                }
-                if (context.config.errorHandling === "throw") throw err || context.softError
+                const err = ErrorFactory.execution(
+                    `Recursive property '${propertyName}' access failed at depth ${i + 1}`,
+                    undefined,
+                    context,
+                )
+                reportSoftError(context, "PROPERTY_NOT_FOUND", err)
+                if (context.config.errorHandling === "throw") throw err
                 return context.config.errorHandling === "return-default" ? context.config.defaultValue : null
             }
         }
@@ -212,7 +378,6 @@ const recursivePropCommand: CommandHandler = {
 const propIncludesCommand: CommandHandler = {
     execute(context: ExecutionContext, propertyName: string, searchString: string): SelectorValue {
         const { currentValue } = context
-        let err: import("../types").SuperSelectorError | undefined
 
         const checkItem = (item: any) => {
             if (item && typeof item === "object" && propertyName in item) {
@@ -233,14 +398,12 @@ const propIncludesCommand: CommandHandler = {
                     (item) => item && typeof item === "object" && propertyName in item && typeof item[propertyName] === "string",
                 )
             ) {
-                if (!context.hadSoftError) {
-                    context.hadSoftError = true
-                    context.softError = ErrorFactory.execution(
-                        `Property '${propertyName}' for 'propIncludes' was not a string or not found on items.`,
-                        undefined,
-                        context,
-                    )
-                }
+                const err = ErrorFactory.execution(
+                    `Property '${propertyName}' for 'propIncludes' was not a string or not found on items.`,
+                    undefined,
+                    context,
+                )
+                reportSoftError(context, "PROPERTY_NOT_FOUND", err)
             }
             return results.length > 0 ? results : null
         } else {
@@ -251,16 +414,13 @@ const propIncludesCommand: CommandHandler = {
                 typeof currentValue === "object" &&
                 (!(propertyName in currentValue) || typeof (currentValue as any)[propertyName] !== "string")
             ) {
-                if (!context.hadSoftError) {
-                    context.hadSoftError = true
-                    err = ErrorFactory.execution(
-                        `Property '${propertyName}' for 'propIncludes' was not a string or not found.`,
-                        undefined,
-                        context,
-                    )
-                    context.softError = err
-                }
-                if (context.config.errorHandling === "throw") throw err || context.softError
+                const err = ErrorFactory.execution(
+                    `Property '${propertyName}' for 'propIncludes' was not a string or not found.`,
+                    undefined,
+                    context,
+                )
+                reportSoftError(context, "PROPERTY_NOT_FOUND", err)
+                if (context.config.errorHandling === "throw") throw err
                 return context.config.errorHandling === "return-default" ? context.config.defaultValue : null
             }
             return result
@@ -277,7 +437,6 @@ const propIncludesLowercaseCommand: CommandHandler = {
     execute(context: ExecutionContext, propertyName: string, searchString: string): SelectorValue {
         const { currentValue } = context
         const lowerSearchString = searchString.toLowerCase()
-        let err: import("../types").SuperSelectorError | undefined
 
         const checkItem = (item: any) => {
             if (item && typeof item === "object" && propertyName in item) {
@@ -298,14 +457,12 @@ const propIncludesLowercaseCommand: CommandHandler = {
                     (item) => item && typeof item === "object" && propertyName in item && typeof item[propertyName] === "string",
                 )
             ) {
-                if (!context.hadSoftError) {
-                    context.hadSoftError = true
-                    context.softError = ErrorFactory.execution(
-                        `Property '${propertyName}' for 'propIncludesLowercase' was not a string or not found on items.`,
-                        undefined,
-                        context,
-                    )
-                }
+                const err = ErrorFactory.execution(
+                    `Property '${propertyName}' for 'propIncludesLowercase' was not a string or not found on items.`,
+                    undefined,
+                    context,
+                )
+                reportSoftError(context, "PROPERTY_NOT_FOUND", err)
             }
             return results.length > 0 ? results : null
         } else {
@@ -316,16 +473,13 @@ const propIncludesLowercaseCommand: CommandHandler = {
                 typeof currentValue === "object" &&
                 (!(propertyName in currentValue) || typeof (currentValue as any)[propertyName] !== "string")
             ) {
-                if (!context.hadSoftError) {
-                    context.hadSoftError = true
-                    err = ErrorFactory.execution(
-                        `Property '${propertyName}' for 'propIncludesLowercase' was not a string or not found.`,
-                        undefined,
-                        context,
-                    )
-                    context.softError = err
-                }
-                if (context.config.errorHandling === "throw") throw err || context.softError
+                const err = ErrorFactory.execution(
+                    `Property '${propertyName}' for 'propIncludesLowercase' was not a string or not found.`,
+                    undefined,
+                    context,
+                )
+                reportSoftError(context, "PROPERTY_NOT_FOUND", err)
+                if (context.config.errorHandling === "throw") throw err
                 return context.config.errorHandling === "return-default" ? context.config.defaultValue : null
             }
             return result
@@ -342,17 +496,13 @@ const matchPropCommand: CommandHandler = {
     execute(context: ExecutionContext, propertyName: string, regexPattern: string): SelectorValue {
         const { currentValue } = context
         let regex: RegExp
-        let err: import("../types").SuperSelectorError | undefined
 
         try {
             regex = new RegExp(regexPattern)
         } catch (error) {
             const errRegex = ErrorFactory.validation(`Invalid regex pattern: ${regexPattern}`)
             if (context.config.errorHandling === "throw") throw errRegex
-            if (!context.hadSoftError) {
-                context.hadSoftError = true
-                context.softError = errRegex
-            }
+            reportSoftError(context, "INVALID_ARGUMENT", errRegex)
             return context.config.errorHandling === "return-default" ? context.config.defaultValue : null
         }
 
@@ -375,14 +525,12 @@ const matchPropCommand: CommandHandler = {
                     (item) => item && typeof item === "object" && propertyName in item && typeof item[propertyName] === "string",
                 )
             ) {
-                if (!context.hadSoftError) {
-                    context.hadSoftError = true
-                    context.softError = ErrorFactory.execution(
-                        `Property '${propertyName}' for 'matchProp' was not a string or not found on items.`,
-                        undefined,
-                        context,
-                    )
-                }
+                const err = ErrorFactory.execution(
+                    `Property '${propertyName}' for 'matchProp' was not a string or not found on items.`,
+                    undefined,
+                    context,
+                )
+                reportSoftError(context, "PROPERTY_NOT_FOUND", err)
             }
             return results.length > 0 ? results : null
         } else {
@@ -393,16 +541,13 @@ const matchPropCommand: CommandHandler = {
                 typeof currentValue === "object" &&
                 (!(propertyName in currentValue) || typeof (currentValue as any)[propertyName] !== "string")
             ) {
-                if (!context.hadSoftError) {
-                    context.hadSoftError = true
-                    err = ErrorFactory.execution(
-                        `Property '${propertyName}' for 'matchProp' was not a string or not found.`,
-                        undefined,
-                        context,
-                    )
-                    context.softError = err
-                }
-                if (context.config.errorHandling === "throw") throw err || context.softError
+                const err = ErrorFactory.execution(
+                    `Property '${propertyName}' for 'matchProp' was not a string or not found.`,
+                    undefined,
+                    context,
+                )
+                reportSoftError(context, "PROPERTY_NOT_FOUND", err)
+                if (context.config.errorHandling === "throw") throw err
                 return context.config.errorHandling === "return-default" ? context.config.defaultValue : null
             }
             return result
@@ -414,6 +559,261 @@ const matchPropCommand: CommandHandler = {
     description: "Filter elements where a property matches a regular expression",
 }
 
+// Higher-order commands take sub-pipeline arguments, e.g. `filter(| textContent | includes('Sale'))`
+const isSubPipeline = (arg: any): arg is SubPipeline => typeof arg === "function"
+
+const toItems = (value: SelectorValue): any[] => (Array.isArray(value) ? value : [value])
+
+// Map command
+const mapCommand: CommandHandler = {
+    execute(context: ExecutionContext, pipeline: SubPipeline): MaybePromise<SelectorValue> {
+        const { currentValue } = context
+
+        if (Array.isArray(currentValue)) {
+            return chain(chainAll(currentValue.map((item, index) => pipeline(item, index))), (results) =>
+                results.length > 0 ? results : null,
+            )
+        }
+
+        return pipeline(currentValue)
+    },
+    validate(args: any[]): boolean {
+        return args.length === 1 && isSubPipeline(args[0])
+    },
+    description: "Run a sub-pipeline against each item and collect the results",
+}
+
+// Filter command
+const filterCommand: CommandHandler = {
+    execute(context: ExecutionContext, pipeline: SubPipeline): MaybePromise<SelectorValue> {
+        const { currentValue } = context
+
+        if (Array.isArray(currentValue)) {
+            return chain(chainAll(currentValue.map((item, index) => pipeline(item, index))), (keep) => {
+                const results = currentValue.filter((_, index) => Boolean(keep[index]))
+                return results.length > 0 ? results : null
+            })
+        }
+
+        return chain(pipeline(currentValue), (keep) => (keep ? currentValue : null))
+    },
+    validate(args: any[]): boolean {
+        return args.length === 1 && isSubPipeline(args[0])
+    },
+    description: "Keep the items for which a sub-pipeline returns a truthy value",
+}
+
+// Where command: filter by a predicate expression such as `where(dataset.stock > 0 && className ~= 'active')`
+const whereCommand: CommandHandler = {
+    execute(context: ExecutionContext, predicate: SubPipeline): MaybePromise<SelectorValue> {
+        return filterCommand.execute(context, predicate)
+    },
+    validate(args: any[]): boolean {
+        return args.length === 1 && isSubPipeline(args[0])
+    },
+    description: "Keep the items matching a predicate expression",
+}
+
+// Sort by command
+const sortByCommand: CommandHandler = {
+    execute(context: ExecutionContext, pipeline: SubPipeline, order: string = "asc"): MaybePromise<SelectorValue> {
+        const { currentValue } = context
+
+        if (!Array.isArray(currentValue)) {
+            return currentValue
+        }
+
+        const direction = order.toLowerCase() === "desc" ? -1 : 1
+
+        return chain(chainAll(currentValue.map((item, index) => pipeline(item, index))), (keys) => {
+            const keyed = currentValue.map((item, index) => ({ item, index, key: keys[index] }))
+
+            keyed.sort((a, b) => {
+                // Items without a key always sort last, and ties keep their original order
+                const aMissing = a.key === null || a.key === undefined
+                const bMissing = b.key === null || b.key === undefined
+                if (aMissing || bMissing) {
+                    return aMissing === bMissing ? a.index - b.index : aMissing ? 1 : -1
+                }
+
+                let comparison: number
+                if (typeof a.key === "number" && typeof b.key === "number") {
+                    comparison = a.key - b.key
+                } else {
+                    comparison = String(a.key).localeCompare(String(b.key))
+                }
+                return comparison !== 0 ? comparison * direction : a.index - b.index
+            })
+
+            return keyed.map((entry) => entry.item)
+        })
+    },
+    validate(args: any[]): boolean {
+        return (
+            args.length >= 1 &&
+            args.length <= 2 &&
+            isSubPipeline(args[0]) &&
+            (args.length === 1 || args[1] === "asc" || args[1] === "desc")
+        )
+    },
+    description: "Sort items by the value of a sub-pipeline ('asc' or 'desc')",
+}
+
+// Some command
+const someCommand: CommandHandler = {
+    execute(context: ExecutionContext, pipeline: SubPipeline): MaybePromise<SelectorValue> {
+        return chain(chainAll(toItems(context.currentValue).map((item, index) => pipeline(item, index))), (results) =>
+            results.some(Boolean),
+        )
+    },
+    validate(args: any[]): boolean {
+        return args.length === 1 && isSubPipeline(args[0])
+    },
+    description: "Check whether a sub-pipeline returns a truthy value for at least one item",
+}
+
+// Every command
+const everyCommand: CommandHandler = {
+    execute(context: ExecutionContext, pipeline: SubPipeline): MaybePromise<SelectorValue> {
+        return chain(chainAll(toItems(context.currentValue).map((item, index) => pipeline(item, index))), (results) =>
+            results.every(Boolean),
+        )
+    },
+    validate(args: any[]): boolean {
+        return args.length === 1 && isSubPipeline(args[0])
+    },
+    description: "Check whether a sub-pipeline returns a truthy value for every item",
+}
+
+// Wait commands resolve once a check first yields a value, e.g. `waitFor('.results li', 5000)` on a late-rendering page.
+// A MutationObserver re-checks on DOM changes; polling catches property changes it cannot see, such as input values.
+const WAIT_POLL_INTERVAL = 100
+
+const isWaitTimeout = (arg: any): boolean => arg === undefined || (typeof arg === "string" && Number(arg) >= 0)
+
+/**
+ * Runs `check` until it returns a non-null value and resolves with that value. Resolves with null once
+ * `timeout` ms have passed, and rejects when the execution is cancelled. Returns synchronously when the
+ * first check already succeeds.
+ */
+function waitForValue(
+    context: ExecutionContext,
+    check: () => MaybePromise<SelectorValue>,
+    timeout: number | undefined,
+    details: Record<string, any>,
+): MaybePromise<SelectorValue> {
+    const events: EventEmitter | undefined = context.metadata.events
+    const root = context.currentValue instanceof Node ? context.currentValue : context.element
+    const found = (value: SelectorValue) => value !== null && value !== undefined
+
+    // Failed attempts are expected while waiting, so their soft errors are not kept
+    const attempt = (): MaybePromise<SelectorValue> => {
+        const { hadSoftError, softError } = context
+        const warningCount = context.warnings?.length ?? 0
+        return chain(check(), (value) => {
+            if (!found(value)) {
+                context.hadSoftError = hadSoftError
+                context.softError = softError
+                context.warnings?.splice(warningCount)
+            }
+            return value
+        })
+    }
+
+    return chain(attempt(), (initial) => {
+        if (found(initial)) return initial
+
+        const startTime = Date.now()
+        events?.emit("wait:start", { ...details, timeout })
+
+        return new Promise<SelectorValue>((resolve, reject) => {
+            let attempts = 0
+            let checking = false
+            let done = false
+
+            const finish = (settle: () => void) => {
+                done = true
+                observer.disconnect()
+                clearInterval(poll)
+                clearTimeout(timer)
+                context.signal?.removeEventListener("abort", onAbort)
+                settle()
+            }
+
+            const recheck = (trigger: "mutation" | "poll") => {
+                if (done || checking) return
+                checking = true
+                attempts++
+                events?.emit("wait:check", { ...details, attempt: attempts, trigger })
+
+                recover(
+                    () =>
+                        chain(attempt(), (value) => {
+                            checking = false
+                            if (!done && found(value)) {
+                                events?.emit("wait:resolved", { ...details, attempts, waited: Date.now() - startTime })
+                                finish(() => resolve(value))
+                            }
+                        }),
+                    (error) => finish(() => reject(error)),
+                )
+            }
+
+            const observer = new MutationObserver(() => recheck("mutation"))
+            observer.observe(root, { childList: true, subtree: true, attributes: true, characterData: true })
+            const poll = setInterval(() => recheck("poll"), WAIT_POLL_INTERVAL)
+
+            let timer: ReturnType<typeof setTimeout> | undefined
+            if (timeout !== undefined) {
+                timer = setTimeout(() => {
+                    events?.emit("wait:timeout", { ...details, attempts, waited: Date.now() - startTime })
+                    finish(() => resolve(null))
+                }, timeout)
+            }
+
+            const onAbort = () => finish(() => reject(context.signal!.reason))
+            if (context.signal?.aborted) {
+                onAbort()
+            } else {
+                context.signal?.addEventListener("abort", onAbort, { once: true })
+            }
+        })
+    })
+}
+
+// Wait for command
+const waitForCommand: CommandHandler = {
+    execute(context: ExecutionContext, selector: string, timeout?: string): MaybePromise<SelectorValue> {
+        const root = context.currentValue
+        return waitForValue(
+            context,
+            () => cssSelectorCommand.execute({ ...context, currentValue: root }, selector),
+            timeout === undefined ? undefined : Number(timeout),
+            { command: "waitFor", selector },
+        )
+    },
+    validate(args: any[]): boolean {
+        return args.length >= 1 && args.length <= 2 && typeof args[0] === "string" && isWaitTimeout(args[1])
+    },
+    description: "Wait until a CSS selector matches under the current element, optionally for at most a number of ms",
+    async: true,
+}
+
+// Wait until command
+const waitUntilCommand: CommandHandler = {
+    execute(context: ExecutionContext, pipeline: SubPipeline, timeout?: string): MaybePromise<SelectorValue> {
+        const value = context.currentValue
+        return waitForValue(context, () => pipeline(value), timeout === undefined ? undefined : Number(timeout), {
+            command: "waitUntil",
+        })
+    },
+    validate(args: any[]): boolean {
+        return args.length >= 1 && args.length <= 2 && isSubPipeline(args[0]) && isWaitTimeout(args[1])
+    },
+    description: "Wait until a sub-pipeline returns a value, optionally for at most a number of ms",
+    async: true,
+}
+
 /**
  * Register all built-in commands
  */
@@ -422,14 +822,26 @@ export function registerBuiltInCommands(): void {
     commandRegistry.clear()
 
     commandRegistry.register("css-selector", cssSelectorCommand)
+    commandRegistry.register("xpath", xpathCommand)
     commandRegistry.register("property", propertyCommand)
+    commandRegistry.register("property-path", propertyPathCommand)
     commandRegistry.register("array-access", arrayAccessCommand)
+    commandRegistry.register("array-slice", arraySliceCommand)
     commandRegistry.register("getProp", getPropCommand)
     commandRegistry.register("p", getPropCommand) // Alias
+    commandRegistry.register("var", varCommand)
     commandRegistry.register("recursiveProp", recursivePropCommand)
     commandRegistry.register("propIncludes", propIncludesCommand)
     commandRegistry.register("propIncludesLowercase", propIncludesLowercaseCommand)
     commandRegistry.register("matchProp", matchPropCommand)
+    commandRegistry.register("map", mapCommand)
+    commandRegistry.register("filter", filterCommand)
+    commandRegistry.register("where", whereCommand)
+    commandRegistry.register("sortBy", sortByCommand)
+    commandRegistry.register("some", someCommand)
+    commandRegistry.register("every", everyCommand)
+    commandRegistry.register("waitFor", waitForCommand)
+    commandRegistry.register("waitUntil", waitUntilCommand)
 
     // console.log("Built-in commands registered:", commandRegistry.list()) // Keep for debugging if needed
 }
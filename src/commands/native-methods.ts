@@ -0,0 +1,115 @@
+/**
+ * Catalogue of DOM, String and Array members that pipelines commonly reach natively, used for
+ * static checks and suggestions. Arity ranges are the widest across the types defining a method.
+ */
+
+// Method name -> [minimum, maximum] argument count
+export const NATIVE_METHODS: ReadonlyMap<string, readonly [number, number]> = new Map([
+    // Element / Node / Document
+    ["closest", [1, 1]],
+    ["contains", [1, 1]],
+    ["getAttribute", [1, 1]],
+    ["getAttributeNames", [0, 0]],
+    ["getBoundingClientRect", [0, 0]],
+    ["getElementById", [1, 1]],
+    ["getElementsByClassName", [1, 1]],
+    ["getElementsByTagName", [1, 1]],
+    ["hasAttribute", [1, 1]],
+    ["hasAttributes", [0, 0]],
+    ["hasChildNodes", [0, 0]],
+    ["matches", [1, 1]],
+    ["querySelector", [1, 1]],
+    ["querySelectorAll", [1, 1]],
+    // String
+    ["charAt", [0, 1]],
+    ["charCodeAt", [0, 1]],
+    ["endsWith", [1, 2]],
+    ["localeCompare", [1, 3]],
+    ["match", [1, 1]],
+    ["matchAll", [1, 1]],
+    ["normalize", [0, 1]],
+    ["padEnd", [1, 2]],
+    ["padStart", [1, 2]],
+    ["repeat", [1, 1]],
+    ["replace", [2, 2]],
+    ["replaceAll", [2, 2]],
+    ["search", [1, 1]],
+    ["split", [0, 2]],
+    ["startsWith", [1, 2]],
+    ["substring", [1, 2]],
+    ["toLowerCase", [0, 0]],
+    ["toUpperCase", [0, 0]],
+    ["trim", [0, 0]],
+    ["trimEnd", [0, 0]],
+    ["trimStart", [0, 0]],
+    // Array
+    ["at", [1, 1]],
+    ["concat", [0, Infinity]],
+    ["every", [1, 2]],
+    ["fill", [1, 3]],
+    ["filter", [1, 2]],
+    ["find", [1, 2]],
+    ["findIndex", [1, 2]],
+    ["findLast", [1, 2]],
+    ["flat", [0, 1]],
+    ["flatMap", [1, 2]],
+    ["includes", [1, 2]],
+    ["indexOf", [1, 2]],
+    ["join", [0, 1]],
+    ["lastIndexOf", [1, 2]],
+    ["map", [1, 2]],
+    ["reverse", [0, 0]],
+    ["slice", [0, 2]],
+    ["some", [1, 2]],
+    ["sort", [0, 1]],
+    // Shared
+    ["toString", [0, 1]],
+    ["valueOf", [0, 0]],
+])
+
+// Properties commonly read from elements, nodes and strings
+export const NATIVE_PROPERTIES: readonly string[] = [
+    "attributes",
+    "checked",
+    "childElementCount",
+    "childNodes",
+    "children",
+    "className",
+    "classList",
+    "clientHeight",
+    "clientWidth",
+    "dataset",
+    "disabled",
+    "firstChild",
+    "firstElementChild",
+    "href",
+    "id",
+    "innerHTML",
+    "innerText",
+    "lastChild",
+    "lastElementChild",
+    "length",
+    "localName",
+    "name",
+    "nextElementSibling",
+    "nextSibling",
+    "nodeName",
+    "nodeType",
+    "nodeValue",
+    "offsetHeight",
+    "offsetWidth",
+    "outerHTML",
+    "ownerDocument",
+    "parentElement",
+    "parentNode",
+    "previousElementSibling",
+    "previousSibling",
+    "selected",
+    "src",
+    "style",
+    "tagName",
+    "textContent",
+    "title",
+    "type",
+    "value",
+]
@@ -1,5 +1,6 @@
-import type { CommandHandler, ExecutionContext, SelectorValue } from "../types"
-import { ErrorFactory } from "../core/errors"
+import type { CommandHandler, ExecutionContext, MaybePromise, SelectorValue } from "../types"
+import { ErrorFactory, SuperSelectorErrorImpl, keepsIdentity } from "../core/errors"
+import { recover } from "../core/async"
 import { logger } from "../core/logger"
 
 /**
@@ -33,7 +34,10 @@ export class CommandRegistry {
         return this.commands.get(name)
     }
 
-    execute(name: string, context: ExecutionContext, ...args: any[]): SelectorValue {
+    /**
+     * Runs a command. Async handlers return a promise whose rejection is wrapped like a synchronous throw.
+     */
+    execute(name: string, context: ExecutionContext, ...args: any[]): MaybePromise<SelectorValue> {
         const handler = this.commands.get(name)
 
         if (!handler) {
@@ -45,15 +49,18 @@ export class CommandRegistry {
             throw ErrorFactory.validation(`Invalid arguments for command '${name}': ${JSON.stringify(args)}`)
         }
 
-        try {
-            return handler.execute(context, ...args)
-        } catch (error) {
-            throw ErrorFactory.execution(
-                `Error executing command '${name}': ${error instanceof Error ? error.message : String(error)}`,
-                undefined,
-                context,
-            )
-        }
+        return recover(
+            () => handler.execute(context, ...args),
+            (error) => {
+                if (keepsIdentity(error)) throw error
+                // Keep the command an error from a nested pipeline was raised by
+                throw ErrorFactory.execution(
+                    `Error executing command '${name}': ${error instanceof Error ? error.message : String(error)}`,
+                    error instanceof SuperSelectorErrorImpl ? error.command : undefined,
+                    context,
+                )
+            },
+        )
     }
 
     list(): string[] {
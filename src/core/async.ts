@@ -0,0 +1,60 @@
+import type { MaybePromise } from "../types"
+
+/**
+ * Helpers for values that are only sometimes asynchronous. Pipelines made of synchronous commands
+ * stay synchronous end to end; the first promise returned by a handler switches the rest of the
+ * chain to promises.
+ */
+
+export function isPromiseLike<T = unknown>(value: unknown): value is PromiseLike<T> {
+    return (
+        value !== null &&
+        (typeof value === "object" || typeof value === "function") &&
+        typeof (value as PromiseLike<T>).then === "function"
+    )
+}
+
+/**
+ * Passes the value to `next` right away, or once it resolves if it is a promise
+ */
+export function chain<T, R>(value: MaybePromise<T>, next: (value: T) => MaybePromise<R>): MaybePromise<R> {
+    return isPromiseLike<T>(value) ? Promise.resolve(value).then(next) : next(value)
+}
+
+/**
+ * Like `Promise.all`, but returns the values synchronously when none of them is a promise
+ */
+export function chainAll<T>(values: MaybePromise<T>[]): MaybePromise<T[]> {
+    return values.some((value) => isPromiseLike(value)) ? Promise.all(values) : (values as T[])
+}
+
+/**
+ * Runs `run` and hands a synchronous throw or a rejection to `onError`
+ */
+export function recover<T>(run: () => MaybePromise<T>, onError: (error: unknown) => MaybePromise<T>): MaybePromise<T> {
+    let value: MaybePromise<T>
+    try {
+        value = run()
+    } catch (error) {
+        return onError(error)
+    }
+    return isPromiseLike<T>(value) ? Promise.resolve(value).catch(onError) : value
+}
+
+/**
+ * Runs `cleanup` once `run` has finished, whether it returned, threw or rejected
+ */
+export function ensure<T>(run: () => MaybePromise<T>, cleanup: () => void): MaybePromise<T> {
+    let value: MaybePromise<T>
+    try {
+        value = run()
+    } catch (error) {
+        cleanup()
+        throw error
+    }
+    if (isPromiseLike<T>(value)) {
+        return Promise.resolve(value).finally(cleanup)
+    }
+    cleanup()
+    return value
+}
@@ -13,12 +13,13 @@ export class Cache {
         }
     }
 
-    set<T extends SelectorValue>(key: string, value: T, ttl?: number): void {
+    set<T extends SelectorValue>(key: string, value: T, ttl?: number, matchedBranch?: number): void {
         const entry: CacheEntry<T> = {
             value,
             timestamp: Date.now(),
             ttl: ttl || this.defaultTTL,
             hits: 0,
+            matchedBranch,
         }
 
         this.store.set(key, entry)
@@ -26,6 +27,14 @@ export class Cache {
     }
 
     get<T extends SelectorValue>(key: string): T | null {
+        const entry = this.getEntry<T>(key)
+        return entry ? entry.value : null
+    }
+
+    /**
+     * Like `get`, but returns the whole entry, e.g. to read the matched branch stored with the value.
+     */
+    getEntry<T extends SelectorValue>(key: string): CacheEntry<T> | null {
         const entry = this.store.get(key) as CacheEntry<T> | undefined
 
         if (!entry) {
@@ -43,7 +52,7 @@ export class Cache {
         entry.hits++
         // logger.debug(`Cache hit: ${key}`, { hits: entry.hits })
 
-        return entry.value
+        return entry
     }
 
     has(key: string): boolean {
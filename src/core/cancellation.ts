@@ -0,0 +1,109 @@
+import type { SuperSelectorError } from "../types"
+import { ErrorFactory } from "./errors"
+
+/**
+ * Cancellation state of one execution: a deadline from `config.timeout` combined with an optional
+ * caller `AbortSignal`. Steps check it between commands; long-running handlers can listen to `signal`.
+ */
+export class Cancellation {
+    readonly signal: AbortSignal
+    private controller = new AbortController()
+    private timeout: number
+    private deadline: number
+    private timer: ReturnType<typeof setTimeout> | undefined
+    private remaining: number | undefined // Time left on the deadline while suspended
+    private parent: AbortSignal | undefined
+    private onParentAbort = () => this.cancel(ErrorFactory.abort())
+
+    // A timeout of 0 or less means no deadline
+    constructor(timeout: number, parent?: AbortSignal) {
+        this.signal = this.controller.signal
+        this.timeout = timeout
+        this.deadline = timeout > 0 ? Date.now() + timeout : Infinity
+        this.parent = parent
+
+        if (parent?.aborted) {
+            this.onParentAbort()
+        } else {
+            parent?.addEventListener("abort", this.onParentAbort, { once: true })
+        }
+
+        // The timer aborts the signal while an async step is pending; synchronous steps are caught by the deadline
+        if (Number.isFinite(this.deadline) && !this.signal.aborted) {
+            this.startTimer(this.timeout)
+        }
+    }
+
+    /**
+     * Stops the deadline clock, e.g. while a debugger holds the execution. The caller's signal still applies.
+     */
+    suspend(): void {
+        if (this.signal.aborted || this.remaining !== undefined || !Number.isFinite(this.deadline)) return
+        this.remaining = Math.max(0, this.deadline - Date.now())
+        this.deadline = Infinity
+        clearTimeout(this.timer)
+    }
+
+    resume(): void {
+        if (this.remaining === undefined || this.signal.aborted) return
+        this.deadline = Date.now() + this.remaining
+        this.startTimer(this.remaining)
+        this.remaining = undefined
+    }
+
+    /**
+     * Throws a TIMEOUT_ERROR once the deadline has passed, or an ABORT_ERROR if the caller aborted.
+     */
+    throwIfCancelled(): void {
+        if (!this.signal.aborted && Date.now() >= this.deadline) {
+            this.cancel(ErrorFactory.timeout(this.timeout))
+        }
+        if (this.signal.aborted) {
+            throw this.signal.reason as SuperSelectorError
+        }
+    }
+
+    /**
+     * Settles like `promise`, or rejects as soon as the execution is cancelled while it is pending.
+     */
+    race<T>(promise: PromiseLike<T>): Promise<T> {
+        if (this.signal.aborted) {
+            return Promise.reject(this.signal.reason)
+        }
+
+        return new Promise<T>((resolve, reject) => {
+            const onAbort = () => reject(this.signal.reason)
+            this.signal.addEventListener("abort", onAbort, { once: true })
+            promise.then(
+                (value) => {
+                    this.signal.removeEventListener("abort", onAbort)
+                    resolve(value)
+                },
+                (error) => {
+                    this.signal.removeEventListener("abort", onAbort)
+                    reject(error)
+                },
+            )
+        })
+    }
+
+    // Stops the timer and detaches from the caller's signal once the execution has finished
+    dispose(): void {
+        clearTimeout(this.timer)
+        this.parent?.removeEventListener("abort", this.onParentAbort)
+    }
+
+    private startTimer(delay: number): void {
+        this.timer = setTimeout(() => this.cancel(ErrorFactory.timeout(this.timeout)), delay)
+    }
+
+    /**
+     * Aborts the signal with `reason`, e.g. so a handler that already started stops once nothing waits for it.
+     */
+    cancel(reason: SuperSelectorError): void {
+        if (!this.signal.aborted) {
+            this.controller.abort(reason)
+        }
+        this.dispose()
+    }
+}
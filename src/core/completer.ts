@@ -0,0 +1,295 @@
+import type {
+    CompletionContext,
+    CompletionItem,
+    CompletionKind,
+    CompletionPosition,
+    CompletionProvider,
+    SelectorValue,
+} from "../types"
+import type { CommandRegistry } from "../commands/registry"
+import { NATIVE_METHODS, NATIVE_PROPERTIES } from "../commands/native-methods"
+import { Tokenizer, TokenType, type Token } from "../parser/tokenizer"
+
+// Evaluates a selector against a root, returning undefined if it cannot be evaluated
+export type PrefixEvaluator = (selector: string, root: Element | Document) => SelectorValue | undefined
+
+// Functions whose string argument is a CSS selector, so completions inside it suggest tags, classes and ids
+const CSS_ARGUMENT_FUNCTIONS = new Set(["css", "querySelector", "querySelectorAll", "closest", "matches"])
+
+// Tokens after which a new segment, field name or argument starts
+const SEPARATORS = new Set([
+    TokenType.PIPE,
+    TokenType.OR,
+    TokenType.COLON,
+    TokenType.COMMA,
+    TokenType.OPEN_PAREN,
+    TokenType.OPEN_BRACE,
+])
+
+// Tokens that can be the segment being typed at the cursor
+const SEGMENT_TOKENS = new Set([
+    TokenType.CSS_SELECTOR,
+    TokenType.PROPERTY,
+    TokenType.PROPERTY_PATH,
+    TokenType.XPATH,
+])
+
+const KIND_ORDER: CompletionKind[] = ["property", "method", "command", "tag", "id", "class"]
+
+// Upper bound on elements scanned in the root for tag, class and id suggestions
+const MAX_SAMPLED_ELEMENTS = 5000
+
+interface CursorAnalysis {
+    position: CompletionPosition
+    prefix: string
+    valueSource: string | null // Selector whose result is the value at the cursor, if it can be evaluated
+}
+
+/**
+ * Completions at a cursor position in a possibly incomplete selector. The input is tokenized in
+ * recovery mode, so open strings and dangling parentheses do not prevent suggestions.
+ */
+export class Completer {
+    private registry: CommandRegistry
+    private evaluate: PrefixEvaluator
+    private providers: CompletionProvider[] = []
+
+    constructor(registry: CommandRegistry, evaluate: PrefixEvaluator) {
+        this.registry = registry
+        this.evaluate = evaluate
+    }
+
+    addProvider(provider: CompletionProvider): void {
+        this.providers.push(provider)
+    }
+
+    removeProvider(provider: CompletionProvider): boolean {
+        const index = this.providers.indexOf(provider)
+        if (index === -1) return false
+        this.providers.splice(index, 1)
+        return true
+    }
+
+    getCompletions(selector: string, cursor: number, root?: Element | Document): CompletionItem[] {
+        const clampedCursor = Math.min(Math.max(cursor, 0), selector.length)
+        const analysis = this.analyze(selector.slice(0, clampedCursor))
+
+        const value =
+            root && analysis.valueSource !== null ? this.evaluate(analysis.valueSource, root) : undefined
+        const context: CompletionContext = {
+            selector,
+            cursor: clampedCursor,
+            position: analysis.position,
+            prefix: analysis.prefix,
+            replace: { start: clampedCursor - analysis.prefix.length, end: clampedCursor },
+            value,
+            root,
+        }
+
+        const candidates = [...this.builtInCompletions(context), ...this.providers.flatMap((provider) => provider(context))]
+        const needle = context.prefix.toLowerCase()
+        const seen = new Set<string>()
+
+        return candidates
+            .filter((item) => {
+                const key = `${item.kind}:${item.label}`
+                if (seen.has(key) || !item.label.toLowerCase().startsWith(needle)) return false
+                seen.add(key)
+                return true
+            })
+            .sort(
+                (a, b) =>
+                    Number(!b.label.startsWith(context.prefix)) - Number(!a.label.startsWith(context.prefix)) ||
+                    KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) ||
+                    a.label.localeCompare(b.label),
+            )
+    }
+
+    /**
+     * Works out what is being typed at the end of `text`: a CSS selector, a command or property,
+     * a property only (after `@` or inside `where(...)`), or nothing that can be completed.
+     */
+    private analyze(text: string): CursorAnalysis {
+        const tokenizer = new Tokenizer(text, { recover: true })
+        const tokens = tokenizer.tokenize().slice(0, -1) // Drop EOF
+        const errors = tokenizer.getErrors()
+        const none: CursorAnalysis = { position: "none", prefix: "", valueSource: null }
+
+        const openString = errors.find((error) => error.diagnosticCode === "UNTERMINATED_STRING")
+        if (openString) {
+            const index = tokens.findIndex((token) => token.position === openString.span?.start)
+            const token = tokens[index]
+            const callee = tokens[index - 2]
+            const isCss =
+                token?.type === TokenType.CSS_SELECTOR ||
+                (tokens[index - 1]?.type === TokenType.OPEN_PAREN &&
+                    callee?.type === TokenType.FUNCTION_NAME &&
+                    CSS_ARGUMENT_FUNCTIONS.has(callee.value))
+            return isCss ? { position: "selector", prefix: this.cssPrefix(token.value), valueSource: null } : none
+        }
+
+        if (errors.some((error) => error.diagnosticCode === "UNTERMINATED_EXPRESSION")) {
+            const where = tokens.map((token) => token.type).lastIndexOf(TokenType.FUNCTION_NAME)
+            return {
+                position: "property",
+                prefix: /[\w$]*$/.exec(text)![0],
+                valueSource: this.sourceBefore(tokens, where, text),
+            }
+        }
+
+        // Find the last separator and the group it belongs to
+        const groups: string[] = []
+        let separator = -1
+        let separatorGroup: string | undefined
+        tokens.forEach((token, index) => {
+            if (token.type === TokenType.OPEN_PAREN) groups.push("(")
+            if (token.type === TokenType.OPEN_BRACE) groups.push("{")
+            if (token.type === TokenType.CLOSE_PAREN || token.type === TokenType.CLOSE_BRACE) groups.pop()
+            if (SEPARATORS.has(token.type)) {
+                separator = index
+                separatorGroup = groups[groups.length - 1]
+            }
+        })
+
+        const after = tokens.slice(separator + 1)
+        const typing =
+            after.length === 0 ||
+            (after.length === 1 && SEGMENT_TOKENS.has(after[0].type) && after[0].position + after[0].length === text.length)
+        if (!typing) return none
+
+        const separatorType = separator >= 0 ? tokens[separator].type : null
+        const segment = text.slice(separator >= 0 ? tokens[separator].position + tokens[separator].length : 0).trimStart()
+
+        const atPipelineStart =
+            separatorType === null ||
+            (separatorType === TokenType.OR && separatorGroup !== "(") ||
+            (separatorType === TokenType.COLON && separatorGroup === "{")
+        const afterPipe =
+            separatorType === TokenType.PIPE || (separatorType === TokenType.OR && separatorGroup === "(")
+
+        // Only top-level pipelines can be evaluated; nested ones run per item of an enclosing command
+        const valueSource = separatorType === TokenType.PIPE && separatorGroup === undefined
+            ? text.slice(0, tokens[separator].position)
+            : null
+
+        if (segment.startsWith("@") && (atPipelineStart || afterPipe)) {
+            return { position: "property", prefix: segment.slice(1), valueSource }
+        }
+
+        if (atPipelineStart) {
+            return { position: "selector", prefix: this.cssPrefix(segment), valueSource: null }
+        }
+
+        if (!afterPipe) return none
+
+        // `dataset.it` completes the keys of `dataset`
+        const dot = segment.lastIndexOf(".")
+        if (dot > 0) {
+            return {
+                position: "property",
+                prefix: segment.slice(dot + 1).replace(/^\?/, ""),
+                valueSource: valueSource === null ? null : `${valueSource} | ${segment.slice(0, dot).replace(/\?$/, "")}`,
+            }
+        }
+
+        return { position: "command", prefix: segment, valueSource }
+    }
+
+    private builtInCompletions(context: CompletionContext): CompletionItem[] {
+        const item = (label: string, kind: CompletionKind, detail?: string): CompletionItem =>
+            detail === undefined ? { label, kind, replace: context.replace } : { label, kind, detail, replace: context.replace }
+
+        switch (context.position) {
+            case "selector":
+                return context.root ? this.sampleSelectors(context.root).map(([label, kind]) => item(label, kind)) : []
+            case "property":
+                return this.members(context.value, true).map(([label, kind]) => item(label, kind))
+            case "command":
+                return [
+                    ...this.registry.list().map((name) => item(name, "command", this.registry.getInfo(name)?.description)),
+                    ...this.members(context.value, false).map(([label, kind]) => item(label, kind)),
+                ]
+            default:
+                return []
+        }
+    }
+
+    /**
+     * Property and method names of the value at the cursor. Arrays offer their own methods plus the
+     * members of their first item, since properties are read per item. Without a value, the native
+     * catalogue is used.
+     */
+    private members(value: SelectorValue | undefined, propertiesOnly: boolean): Array<[string, CompletionKind]> {
+        if (value === undefined || value === null) {
+            return [
+                ...NATIVE_PROPERTIES.map((name): [string, CompletionKind] => [name, "property"]),
+                ...(propertiesOnly ? [] : [...NATIVE_METHODS.keys()].map((name): [string, CompletionKind] => [name, "method"])),
+            ]
+        }
+
+        if (Array.isArray(value)) {
+            const own = propertiesOnly ? [] : this.membersOf(value).filter(([, kind]) => kind === "method")
+            return [...own, ...(value.length > 0 ? this.members(value[0], propertiesOnly) : [])]
+        }
+
+        const members = this.membersOf(value)
+        return propertiesOnly ? members.filter(([, kind]) => kind === "property") : members
+    }
+
+    private membersOf(value: unknown): Array<[string, CompletionKind]> {
+        const names = new Set<string>()
+        for (let target: unknown = Object(value); target && target !== Object.prototype; target = Object.getPrototypeOf(target)) {
+            for (const name of Object.getOwnPropertyNames(target)) {
+                // Skip constants such as ELEMENT_NODE, and internals
+                if (name !== "constructor" && !/^[A-Z_\d]+$/.test(name) && !name.startsWith("_")) {
+                    names.add(name)
+                }
+            }
+        }
+
+        return [...names].map((name) => {
+            let kind: CompletionKind = "property"
+            try {
+                kind = typeof (value as any)[name] === "function" ? "method" : "property"
+            } catch (error) {
+                // Some accessors throw when read on the wrong kind of object
+            }
+            return [name, kind]
+        })
+    }
+
+    private sampleSelectors(root: Element | Document): Array<[string, CompletionKind]> {
+        const tags = new Set<string>()
+        const ids = new Set<string>()
+        const classes = new Set<string>()
+
+        const elements = Array.from(root.querySelectorAll("*")).slice(0, MAX_SAMPLED_ELEMENTS)
+        for (const element of elements) {
+            tags.add(element.localName)
+            if (element.id) ids.add(`#${element.id}`)
+            element.classList.forEach((name) => classes.add(`.${name}`))
+        }
+
+        return [
+            ...[...tags].map((label): [string, CompletionKind] => [label, "tag"]),
+            ...[...ids].map((label): [string, CompletionKind] => [label, "id"]),
+            ...[...classes].map((label): [string, CompletionKind] => [label, "class"]),
+        ]
+    }
+
+    // The compound being typed at the end of a CSS selector, e.g. `.ac` in `ul li.ac`
+    private cssPrefix(selector: string): string {
+        return /[#.]?[\w-]*$/.exec(selector)![0]
+    }
+
+    /**
+     * The top-level pipeline feeding the segment that contains token `index`, or null if it is nested.
+     */
+    private sourceBefore(tokens: Token[], index: number, text: string): string | null {
+        const pipe = tokens.slice(0, index).map((token) => token.type).lastIndexOf(TokenType.PIPE)
+        if (pipe === -1 || tokens.slice(0, pipe).some((token) => token.type === TokenType.OPEN_PAREN || token.type === TokenType.OPEN_BRACE)) {
+            return null
+        }
+        return text.slice(0, tokens[pipe].position)
+    }
+}
@@ -1,4 +1,4 @@
-import type { SuperSelectorConfig } from "../types"
+import type { ExecutionOverrides, SuperSelectorConfig } from "../types"
 
 /**
  * Default configuration for SuperSelector
@@ -13,6 +13,28 @@ export const DEFAULT_CONFIG: SuperSelectorConfig = {
     defaultValue: null,
     plugins: [],
     customCommands: {},
+    awaitHooks: false,
+    strict: false,
+}
+
+const OVERRIDABLE_KEYS: readonly (keyof ExecutionOverrides)[] = [
+    "timeout",
+    "maxDepth",
+    "cacheEnabled",
+    "cacheTTL",
+    "errorHandling",
+    "defaultValue",
+    "awaitHooks",
+    "strict",
+]
+
+/**
+ * Applies the settings an execution overrides to a copy of the instance config. Options left undefined keep the
+ * instance value.
+ */
+export function applyOverrides(config: SuperSelectorConfig, overrides: ExecutionOverrides): SuperSelectorConfig {
+    const defined = OVERRIDABLE_KEYS.filter((key) => overrides[key] !== undefined).map((key) => [key, overrides[key]])
+    return { ...config, ...Object.fromEntries(defined) }
 }
 
 /**
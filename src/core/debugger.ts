@@ -0,0 +1,140 @@
+import type { DebuggerPause } from "../types"
+import { ErrorFactory } from "./errors"
+import { logger } from "./logger"
+
+// A top-level command index, or a command name such as "map" or "textContent"
+export type Breakpoint = number | string
+
+export type PauseListener = (pause: DebuggerPause) => void
+
+/**
+ * Per-execution debugger state, kept by the engine for the duration of one run
+ */
+export interface DebugSession {
+    stepping: boolean // Pause before the next command whether or not it has a breakpoint
+}
+
+interface PendingPause {
+    pause: DebuggerPause
+    session: DebugSession
+    resume: () => void
+    abort: (reason: unknown) => void
+}
+
+/**
+ * Controller a UI can drive to pause pipelines between top-level commands. Set breakpoints, wait for
+ * `onPause`, inspect `pause.context.currentValue`, then `step()`, `continue()` or `abort()`.
+ *
+ * Attach it with `SuperSelector.attachDebugger()`. When several executions hit a pause point, they are
+ * held in order and `paused` is the oldest one. Synchronous runs (`runSync`) never pause.
+ */
+export class Debugger {
+    private breakpoints = new Set<Breakpoint>()
+    private listeners = new Set<PauseListener>()
+    private queue: PendingPause[] = []
+
+    setBreakpoint(breakpoint: Breakpoint): void {
+        this.breakpoints.add(breakpoint)
+    }
+
+    removeBreakpoint(breakpoint: Breakpoint): boolean {
+        return this.breakpoints.delete(breakpoint)
+    }
+
+    clearBreakpoints(): void {
+        this.breakpoints.clear()
+    }
+
+    getBreakpoints(): Breakpoint[] {
+        return Array.from(this.breakpoints)
+    }
+
+    get paused(): DebuggerPause | null {
+        return this.queue[0]?.pause ?? null
+    }
+
+    /**
+     * Calls `listener` whenever an execution pauses. Returns a function that removes the listener.
+     */
+    onPause(listener: PauseListener): () => void {
+        this.listeners.add(listener)
+        return () => this.listeners.delete(listener)
+    }
+
+    // Run the paused command and pause again before the next one
+    step(): void {
+        this.release((pending) => {
+            pending.session.stepping = true
+            pending.resume()
+        })
+    }
+
+    // Run until the next breakpoint
+    continue(): void {
+        this.release((pending) => {
+            pending.session.stepping = false
+            pending.resume()
+        })
+    }
+
+    // End the paused execution with an ABORT_ERROR
+    abort(): void {
+        this.release((pending) => pending.abort(ErrorFactory.abort("Execution was aborted by the debugger")))
+    }
+
+    /**
+     * Lets every held execution run to completion, e.g. when the debugger is detached
+     */
+    releaseAll(): void {
+        while (this.queue.length > 0) {
+            this.continue()
+        }
+    }
+
+    /**
+     * Called by the engine before each top-level command. Returns a promise that settles when the
+     * execution may go on, or nothing when there is no reason to pause.
+     */
+    pausePoint(session: DebugSession, pause: Omit<DebuggerPause, "reason">): Promise<void> | void {
+        const hit = this.breakpoints.has(pause.index) || this.breakpoints.has(pause.command.name)
+        if (!hit && !session.stepping) return
+
+        return new Promise<void>((resolve, reject) => {
+            const pending: PendingPause = {
+                pause: { ...pause, reason: hit ? "breakpoint" : "step" },
+                session,
+                resume: resolve,
+                abort: reject,
+            }
+            this.queue.push(pending)
+            if (this.queue.length === 1) this.notify()
+        })
+    }
+
+    // Drops the pause of an execution that ended while held, e.g. by a timeout or its caller's signal
+    cancel(session: DebugSession): void {
+        const index = this.queue.findIndex((pending) => pending.session === session)
+        if (index === -1) return
+        this.queue.splice(index, 1)
+        if (index === 0 && this.queue.length > 0) this.notify()
+    }
+
+    // Removes the oldest pause from the queue, then announces the next one if any
+    private release(settle: (pending: PendingPause) => void): void {
+        const pending = this.queue.shift()
+        if (!pending) return
+        settle(pending)
+        if (this.queue.length > 0) this.notify()
+    }
+
+    private notify(): void {
+        const { pause } = this.queue[0]
+        for (const listener of this.listeners) {
+            try {
+                listener(pause)
+            } catch (error) {
+                logger.error("Error in debugger pause listener:", error)
+            }
+        }
+    }
+}
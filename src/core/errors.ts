@@ -1,4 +1,4 @@
-import type { SuperSelectorError, Command, ExecutionContext } from "../types"
+import type { SuperSelectorError, Command, ExecutionContext, SourceSpan } from "../types"
 
 /**
  * Custom error classes for SuperSelector
@@ -18,9 +18,14 @@ export class SuperSelectorErrorImpl extends Error implements SuperSelectorError
 }
 
 export class ParseError extends SuperSelectorErrorImpl {
-    constructor(message: string, command?: Command) {
+    public readonly span?: SourceSpan | undefined
+    public readonly diagnosticCode: string
+
+    constructor(message: string, command?: Command, span?: SourceSpan, diagnosticCode = "SYNTAX_ERROR") {
         super(message, "PARSE_ERROR", command)
         this.name = "ParseError"
+        this.span = span
+        this.diagnosticCode = diagnosticCode
     }
 }
 
@@ -45,6 +50,34 @@ export class TimeoutError extends SuperSelectorErrorImpl {
     }
 }
 
+export class AbortError extends SuperSelectorErrorImpl {
+    constructor(message = "Execution was aborted") {
+        super(message, "ABORT_ERROR")
+        this.name = "AbortError"
+    }
+}
+
+// Raised when a synchronous run reaches a command that can only complete asynchronously
+export class AsyncCommandError extends SuperSelectorErrorImpl {
+    constructor(command: Command, context?: Partial<ExecutionContext>) {
+        super(
+            `Command '${command.name}' is asynchronous and cannot run synchronously; use execute() or run() instead`,
+            "ASYNC_COMMAND_ERROR",
+            command,
+            context,
+        )
+        this.name = "AsyncCommandError"
+    }
+}
+
+// A soft error promoted by `config.strict`; the code is the warning's, e.g. "INDEX_OUT_OF_BOUNDS"
+export class StrictModeError extends SuperSelectorErrorImpl {
+    constructor(code: string, message: string, command?: Command, context?: Partial<ExecutionContext>) {
+        super(message, code, command, context)
+        this.name = "StrictModeError"
+    }
+}
+
 export class PluginError extends SuperSelectorErrorImpl {
     constructor(message: string, pluginName: string) {
         super(`Plugin '${pluginName}': ${message}`, "PLUGIN_ERROR")
@@ -52,12 +85,31 @@ export class PluginError extends SuperSelectorErrorImpl {
     }
 }
 
+// Timeouts from `config.timeout` and aborts from the caller's signal or the debugger
+export function isCancellation(error: unknown): error is TimeoutError | AbortError {
+    return error instanceof TimeoutError || error instanceof AbortError
+}
+
+/**
+ * True for errors that must pass through command wrappers unchanged, so callers still see their code
+ */
+export function keepsIdentity(error: unknown): boolean {
+    return endsExecution(error) || error instanceof StrictModeError
+}
+
+/**
+ * True for errors that end the whole execution, which must pass through command wrappers unchanged
+ */
+export function endsExecution(error: unknown): error is TimeoutError | AbortError | AsyncCommandError {
+    return isCancellation(error) || error instanceof AsyncCommandError
+}
+
 /**
  * Error factory for creating consistent errors
  */
 export class ErrorFactory {
-    static parse(message: string, command?: Command): ParseError {
-        return new ParseError(message, command)
+    static parse(message: string, command?: Command, span?: SourceSpan, diagnosticCode?: string): ParseError {
+        return new ParseError(message, command, span, diagnosticCode)
     }
 
     static execution(message: string, command?: Command, context?: Partial<ExecutionContext>): ExecutionError {
@@ -72,6 +124,18 @@ export class ErrorFactory {
         return new TimeoutError(timeout)
     }
 
+    static abort(message?: string): AbortError {
+        return new AbortError(message)
+    }
+
+    static asyncCommand(command: Command, context?: Partial<ExecutionContext>): AsyncCommandError {
+        return new AsyncCommandError(command, context)
+    }
+
+    static strict(code: string, message: string, command?: Command, context?: Partial<ExecutionContext>): StrictModeError {
+        return new StrictModeError(code, message, command, context)
+    }
+
     static plugin(message: string, pluginName: string): PluginError {
         return new PluginError(message, pluginName)
     }
@@ -1,4 +1,5 @@
 import type { SuperSelectorEvent, EventListener } from "../types"
+import { isPromiseLike } from "./async"
 
 /**
  * Event system for SuperSelector
@@ -24,28 +25,27 @@ export class EventEmitter {
     }
 
     emit(eventType: string, data?: any): void {
-        const event: SuperSelectorEvent = {
-            type: eventType,
-            data,
-            timestamp: Date.now(),
+        for (const pending of this.notify(eventType, data)) {
+            pending.catch((error) => console.error(`Error in event listener for ${eventType}:`, error))
         }
+    }
 
-        const listeners = this.listeners.get(eventType)
-        if (listeners) {
-            for (const listener of listeners) {
-                try {
-                    listener(event)
-                } catch (error) {
-                    console.error(`Error in event listener for ${eventType}:`, error)
-                }
+    /**
+     * Like `emit`, but resolves once every promise returned by a listener has settled
+     */
+    async emitAndWait(eventType: string, data?: any): Promise<void> {
+        const results = await Promise.allSettled(this.notify(eventType, data))
+        for (const result of results) {
+            if (result.status === "rejected") {
+                console.error(`Error in event listener for ${eventType}:`, result.reason)
             }
         }
     }
 
     once(eventType: string, listener: EventListener): void {
         const onceListener: EventListener = (event) => {
-            listener(event)
             this.off(eventType, onceListener)
+            return listener(event)
         }
         this.on(eventType, onceListener)
     }
@@ -65,4 +65,29 @@ export class EventEmitter {
     eventTypes(): string[] {
         return Array.from(this.listeners.keys())
     }
+
+    // Calls every listener and returns the promises of the async ones
+    private notify(eventType: string, data: any): Promise<void>[] {
+        const event: SuperSelectorEvent = {
+            type: eventType,
+            data,
+            timestamp: Date.now(),
+        }
+
+        const pending: Promise<void>[] = []
+        const listeners = this.listeners.get(eventType)
+        if (listeners) {
+            for (const listener of listeners) {
+                try {
+                    const result = listener(event)
+                    if (isPromiseLike<void>(result)) {
+                        pending.push(Promise.resolve(result))
+                    }
+                } catch (error) {
+                    console.error(`Error in event listener for ${eventType}:`, error)
+                }
+            }
+        }
+        return pending
+    }
 }
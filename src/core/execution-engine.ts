@@ -1,24 +1,81 @@
 import type {
     Command,
+    CommandArgument,
+    ExecuteOptions,
     ExecutionContext,
     ExecutionResult,
+    FallbackCommand,
+    FunctionCommand,
+    MaybePromise,
+    ObjectCommand,
     SelectorValue,
+    SourceSpan,
+    SubPipeline,
     SuperSelectorConfig,
     SuperSelectorError as SuperSelectorErrorType,
+    TraceStep,
 } from "../types" // Ensure SuperSelectorErrorType is imported if used directly
 import { commandRegistry } from "../commands/registry"
-import { ErrorFactory } from "./errors"
+import { ErrorFactory, ExecutionError, StrictModeError, ValidationError, endsExecution, isCancellation } from "./errors"
+import { Cancellation } from "./cancellation"
+import { applyOverrides } from "./config"
+import { reportSoftError } from "./warnings"
+import { chain, chainAll, ensure, isPromiseLike, recover } from "./async"
+import { summarizeValue } from "./trace"
+import { buildPrefixTree, type PrefixNode } from "./prefix-tree"
+import type { DebugSession, Debugger } from "./debugger"
+import { evaluateExpression, type Expression } from "../parser/expression"
+import { Printer } from "../parser/printer"
 import { logger } from "./logger"
 import type { Cache } from "./cache"
 import type { EventEmitter } from "./event-emitter"
 
+/**
+ * A command compiled to a closure over its operands, so running it does not re-inspect the AST
+ */
+export interface CompiledStep {
+    readonly command: Command
+    readonly run: (context: ExecutionContext) => MaybePromise<SelectorValue>
+}
+
+/**
+ * An immutable, ready-to-run pipeline built once from a `Command[]`
+ */
+export interface CompiledPipeline {
+    readonly commands: readonly Command[]
+    readonly steps: readonly CompiledStep[]
+    readonly cacheKey: string // Serialized once at compile time rather than on every execution
+    readonly origin?: PipelineOrigin | undefined
+}
+
+/**
+ * The selector a pipeline was parsed from, used to show each command as written in traces
+ */
+export interface PipelineOrigin {
+    readonly selector: string
+    readonly spans: WeakMap<Command, SourceSpan>
+    readonly expansions?: WeakMap<Command, string> | undefined // Macro call each expanded command came from
+}
+
+type CompiledArgument =
+    | string
+    | { readonly type: "expression"; readonly expression: Expression }
+    | { readonly type: "pipe"; readonly steps: readonly CompiledStep[] }
+
+interface CompiledField {
+    readonly key: string
+    readonly steps: readonly CompiledStep[]
+}
+
 /**
  * Core execution engine for SuperSelector
  */
 export class ExecutionEngine {
     private cache: Cache
     private eventEmitter: EventEmitter
-    private executionDepth = 0
+    private depths = new WeakMap<ExecutionContext, number>() // Sub-pipeline nesting, checked against maxDepth
+    private printer = new Printer()
+    private attachedDebugger: Debugger | undefined
 
     constructor(cache: Cache, eventEmitter: EventEmitter) {
         this.cache = cache
@@ -29,200 +86,911 @@ export class ExecutionEngine {
         commands: Command[],
         element: Element | Document,
         config: SuperSelectorConfig,
+        options: ExecuteOptions = {},
     ): Promise<ExecutionResult> {
+        return this.run(this.compile(commands), element, config, options, false)
+    }
+
+    async executeCompiled(
+        pipeline: CompiledPipeline,
+        element: Element | Document,
+        config: SuperSelectorConfig,
+        options: ExecuteOptions = {},
+    ): Promise<ExecutionResult> {
+        return this.run(pipeline, element, config, options, false)
+    }
+
+    /**
+     * Runs a pipeline without yielding. A command that returns a promise fails the execution
+     * instead of being awaited, and hooks are never awaited.
+     */
+    executeCompiledSync(
+        pipeline: CompiledPipeline,
+        element: Element | Document,
+        config: SuperSelectorConfig,
+        options: ExecuteOptions = {},
+    ): ExecutionResult {
+        return this.run(pipeline, element, config, options, true) as ExecutionResult
+    }
+
+    /**
+     * Runs a pipeline synchronously without touching the instance: the cache is neither read nor filled,
+     * and no events or hooks fire. Used to evaluate completion prefixes on every keystroke.
+     */
+    previewCompiledSync(pipeline: CompiledPipeline, element: Element | Document, config: SuperSelectorConfig): ExecutionResult {
+        return this.run(pipeline, element, { ...config, cacheEnabled: false }, {}, true, true) as ExecutionResult
+    }
+
+    /**
+     * Attaches a debugger that can pause async runs between top-level commands, or detaches it
+     */
+    setDebugger(controller: Debugger | undefined): void {
+        this.attachedDebugger = controller
+    }
+
+    /**
+     * Compiles commands into a pipeline of closures. Sub-pipelines, object fields and fallback
+     * branches are compiled up front too, so the AST is only walked once.
+     */
+    compile(commands: Command[], origin?: PipelineOrigin): CompiledPipeline {
+        return Object.freeze({
+            commands,
+            steps: this.compileCommands(commands),
+            cacheKey: JSON.stringify(commands),
+            origin,
+        })
+    }
+
+    private run(
+        pipeline: CompiledPipeline,
+        element: Element | Document,
+        instanceConfig: SuperSelectorConfig,
+        options: ExecuteOptions,
+        synchronous: boolean,
+        silent = false,
+    ): MaybePromise<ExecutionResult> {
+        const { commands } = pipeline
+        const config = applyOverrides(instanceConfig, options)
         const startTime = Date.now()
         let commandsExecuted = 0
         let cacheHit = false
+        const cancellation = new Cancellation(config.timeout, options.signal)
+        const trace: TraceStep[] | undefined = options.trace ? [] : undefined
+        const context = this.createRootContext(element, config, cancellation, synchronous, trace, options.variables, pipeline.origin)
+        if (silent) context.metadata.events = undefined
 
-        // Initialize context with soft error tracking
-        const context: ExecutionContext = {
-            element,
-            currentValue: element,
-            config,
-            metadata: {},
-            hadSoftError: false,
-            softError: undefined,
+        const fail = (error: unknown): MaybePromise<ExecutionResult> => {
+            const executionTime = Date.now() - startTime
+            const superSelectorError = this.toSuperSelectorError(error)
+
+            logger.error("Execution failed with hard error", { error: superSelectorError, commands })
+            const result: ExecutionResult = {
+                success: false,
+                value: this.failedValue(superSelectorError, config),
+                error: superSelectorError,
+                metadata: { executionTime, commandsExecuted, cacheHit },
+                ...(trace && { trace }),
+                errors: context.warnings!,
+            }
+
+            // The error is already decided, so a hook cut short by cancellation does not change it
+            const data = { error: superSelectorError, executionTime, commandsExecuted }
+            const hooks = recover(
+                () => this.emitHook("execution:error", data, context),
+                () => undefined,
+            )
+            return chain(hooks, () => result)
         }
 
-        try {
-            const cacheKey = this.generateCacheKey(commands, element)
-            if (config.cacheEnabled) {
-                const cachedResult = this.cache.get(cacheKey)
-                if (cachedResult !== null) {
+        const execute = (): MaybePromise<ExecutionResult> => {
+            cancellation.throwIfCancelled()
+
+            // A trace has to come from a real run, so traced executions neither read nor fill the cache.
+            // Results depending on variables are not cached either, since the cache key does not cover them.
+            const useCache = config.cacheEnabled && !trace && !options.variables
+            const cacheKey = this.generateCacheKey(pipeline, element)
+            if (useCache) {
+                const cached = this.cache.getEntry(cacheKey)
+                if (cached !== null) {
                     cacheHit = true
                     ////logger.debug("Cache hit for selector execution")
                     return {
                         success: true,
-                        value: cachedResult,
+                        value: cached.value,
                         error: undefined, // Explicitly undefined for cache hit success
                         metadata: {
                             executionTime: Date.now() - startTime,
                             commandsExecuted: 0,
                             cacheHit: true,
+                            matchedBranch: cached.matchedBranch,
                         },
+                        errors: [], // Only results without soft errors are cached
                     }
                 }
             }
 
-            this.eventEmitter.emit("execution:start", { commands, element })
+            const started = this.emitHook("execution:start", { commands, element }, context)
+            const resultValue = chain(started, () => this.executeCommands(pipeline.steps, context))
 
-            const resultValue = await this.executeCommands(commands, context)
-            commandsExecuted = commands.length
+            return chain(resultValue, (resultValue) => {
+                commandsExecuted = commands.length
 
-            if (config.cacheEnabled && resultValue !== null && !context.hadSoftError) {
-                this.cache.set(cacheKey, resultValue, config.cacheTTL)
-            }
+                const matchedBranch = this.getMatchedBranch(commands, context)
+                if (useCache && resultValue !== null && !context.hadSoftError) {
+                    this.cache.set(cacheKey, resultValue, config.cacheTTL, matchedBranch)
+                }
 
-            const executionTime = Date.now() - startTime
-            this.eventEmitter.emit("execution:complete", { result: resultValue, executionTime, commandsExecuted })
+                const executionTime = Date.now() - startTime
+                const result: ExecutionResult = {
+                    success: !context.hadSoftError,
+                    value: resultValue,
+                    error: context.hadSoftError ? context.softError : undefined,
+                    metadata: {
+                        executionTime,
+                        commandsExecuted,
+                        cacheHit,
+                        matchedBranch,
+                    },
+                    ...(trace && { trace }),
+                    errors: context.warnings!,
+                }
 
-            return {
-                success: !context.hadSoftError,
-                value: resultValue,
-                error: context.hadSoftError ? context.softError : undefined,
-                metadata: { executionTime, commandsExecuted, cacheHit },
+                const completed = this.emitHook(
+                    "execution:complete",
+                    { result: resultValue, executionTime, commandsExecuted },
+                    context,
+                )
+                return chain(completed, () => result)
+            })
+        }
+
+        return ensure(
+            () => recover(execute, fail),
+            () => cancellation.dispose(),
+        )
+    }
+
+    /**
+     * Runs several pipelines against one root, keyed by name. The pipelines are merged into a prefix
+     * tree, so the commands they start with in common run once and each branch goes on from a copy of
+     * the state they left. Branches run one after another, and one `config.timeout` bounds the batch.
+     */
+    async executeBatch(
+        pipelines: ReadonlyMap<string, CompiledPipeline>,
+        element: Element | Document,
+        instanceConfig: SuperSelectorConfig,
+        options: ExecuteOptions = {},
+    ): Promise<Map<string, ExecutionResult>> {
+        const config = applyOverrides(instanceConfig, options)
+        const startTime = Date.now()
+        const results = new Map<string, ExecutionResult>()
+        const cancellation = new Cancellation(config.timeout, options.signal)
+        const trace: TraceStep[] | undefined = options.trace ? [] : undefined
+        const useCache = config.cacheEnabled && !trace && !options.variables
+
+        const pending = new Map<string, CompiledPipeline>()
+        for (const [key, pipeline] of pipelines) {
+            const cached = useCache ? this.cache.getEntry(this.generateCacheKey(pipeline, element)) : null
+            if (cached === null) {
+                pending.set(key, pipeline)
+                continue
             }
-        } catch (error) {
+            results.set(key, {
+                success: true,
+                value: cached.value,
+                error: undefined,
+                metadata: {
+                    executionTime: Date.now() - startTime,
+                    commandsExecuted: 0,
+                    cacheHit: true,
+                    matchedBranch: cached.matchedBranch,
+                },
+                errors: [],
+            })
+        }
+
+        const fail = async (key: string, error: unknown, context: ExecutionContext): Promise<void> => {
             const executionTime = Date.now() - startTime
-            // Ensure the caught error is of SuperSelectorErrorType or wrapped
-            let superSelectorError: SuperSelectorErrorType
-            if (error instanceof Error && "code" in error && typeof error.code === "string") {
-                // It's likely already a SuperSelectorError or compatible
-                superSelectorError = error as SuperSelectorErrorType
-            } else {
-                superSelectorError = ErrorFactory.execution(error instanceof Error ? error.message : String(error))
-            }
+            const superSelectorError = this.toSuperSelectorError(error)
 
-            this.eventEmitter.emit("execution:error", { error: superSelectorError, executionTime, commandsExecuted })
+            const { commands } = pending.get(key)!
             logger.error("Execution failed with hard error", { error: superSelectorError, commands })
-
-            return {
+            results.set(key, {
                 success: false,
-                value:
-                    config.errorHandling === "return-default" && !(error instanceof ErrorFactory.timeout(0).constructor)
-                        ? config.defaultValue
-                        : null,
+                value: this.failedValue(superSelectorError, config),
                 error: superSelectorError,
-                metadata: { executionTime, commandsExecuted, cacheHit },
+                metadata: { executionTime, commandsExecuted: 0, cacheHit: false },
+                ...(trace && { trace: [...context.metadata.trace] }),
+                errors: [...context.warnings!],
+            })
+
+            try {
+                const data = { error: superSelectorError, executionTime, commandsExecuted: 0 }
+                await this.emitHook("execution:error", data, context)
+            } catch {
+                // The error is already decided, so a hook cut short by cancellation does not change it
+            }
+        }
+
+        const complete = async (key: string, node: PrefixNode, context: ExecutionContext, shared: number) => {
+            const pipeline = pending.get(key)!
+            const commandsExecuted = pipeline.commands.length
+            const resultValue = context.currentValue
+            // The fallback that ran is the node's own command, which may come from another pipeline
+            const matchedBranch = this.getMatchedBranch(node.pipeline.commands, context)
+
+            try {
+                if (useCache && resultValue !== null && !context.hadSoftError) {
+                    this.cache.set(this.generateCacheKey(pipeline, element), resultValue, config.cacheTTL, matchedBranch)
+                }
+
+                const executionTime = Date.now() - startTime
+                results.set(key, {
+                    success: !context.hadSoftError,
+                    value: resultValue,
+                    error: context.hadSoftError ? context.softError : undefined,
+                    metadata: {
+                        executionTime,
+                        commandsExecuted,
+                        cacheHit: false,
+                        matchedBranch,
+                        sharedCommands: shared,
+                    },
+                    ...(trace && { trace: context.metadata.trace }),
+                    errors: context.warnings!,
+                })
+
+                await this.emitHook("execution:complete", { result: resultValue, executionTime, commandsExecuted }, context)
+            } catch (error) {
+                await fail(key, error, context)
+            }
+        }
+
+        const executeNode = async (node: PrefixNode, context: ExecutionContext, shared: number): Promise<void> => {
+            try {
+                if (node.depth >= 0) {
+                    const { steps, origin } = node.pipeline
+                    // The previous command ran as the last one of a pipeline ending there, but this branch goes on
+                    if (context.currentValue === undefined && !context.hadSoftError && node.depth > 0) {
+                        const previous = steps[node.depth - 1]
+                        const from = context.warnings!.length
+                        context.currentValue = this.breakChain(previous.command, context)
+                        this.tagWarnings(previous, node.depth - 1, context, from)
+                    }
+
+                    cancellation.throwIfCancelled()
+                    context.metadata.origin = origin
+                    context.currentValue = await this.enterStep(steps, node.depth, context)
+                }
+            } catch (error) {
+                for (const key of node.keys) await fail(key, error, context)
+                return
+            }
+
+            const sharedCommands = node.keys.length > 1 ? node.depth + 1 : shared
+            for (const key of node.ends) await complete(key, node, this.forkContext(context), sharedCommands)
+            for (const child of node.children.values()) await executeNode(child, this.forkContext(context), sharedCommands)
+        }
+
+        const root = buildPrefixTree(pending)
+        try {
+            if (root) {
+                const context = this.createRootContext(element, config, cancellation, false, trace, options.variables)
+                try {
+                    for (const pipeline of pending.values()) {
+                        await this.emitHook("execution:start", { commands: pipeline.commands, element }, context)
+                    }
+                    await executeNode(root, context, 0)
+                } catch (error) {
+                    for (const key of root.keys) await fail(key, error, context)
+                }
             }
         } finally {
-            this.executionDepth = 0
+            cancellation.dispose()
         }
+
+        return new Map(Array.from(pipelines.keys(), (key) => [key, results.get(key)!]))
     }
 
-    private async executeCommands(commands: Command[], context: ExecutionContext): Promise<SelectorValue> {
-        if (this.executionDepth > context.config.maxDepth) {
+    private createRootContext(
+        element: Element | Document,
+        config: SuperSelectorConfig,
+        cancellation: Cancellation,
+        synchronous: boolean,
+        trace: TraceStep[] | undefined,
+        variables: Record<string, SelectorValue> | undefined,
+        origin?: PipelineOrigin,
+    ): ExecutionContext {
+        const debug = synchronous ? undefined : this.attachedDebugger
+
+        // Initialize context with soft error tracking
+        return {
+            element,
+            currentValue: element,
+            config,
+            metadata: {
+                cancellation,
+                synchronous,
+                events: this.eventEmitter,
+                trace,
+                origin,
+                debugger: debug,
+                debugSession: debug && { stepping: false },
+            },
+            hadSoftError: false,
+            softError: undefined,
+            signal: cancellation.signal,
+            variables,
+            warnings: [],
+        }
+    }
+
+    // A copy of a top-level context for one branch of a batch, so branches do not see each other's state
+    private forkContext(context: ExecutionContext): ExecutionContext {
+        const { trace, matchedBranches, debugSession } = context.metadata
+        return {
+            ...context,
+            warnings: [...context.warnings!],
+            metadata: {
+                ...context.metadata,
+                trace: trace && [...trace],
+                matchedBranches: matchedBranches && new Map(matchedBranches),
+                debugSession: debugSession && { ...debugSession },
+            },
+        }
+    }
+
+    // Timeouts and aborts give null even in "return-default" mode, so a cancelled run is not mistaken for a default
+    private failedValue(error: SuperSelectorErrorType, config: SuperSelectorConfig): SelectorValue {
+        return config.errorHandling === "return-default" && !isCancellation(error) ? config.defaultValue : null
+    }
+
+    private toSuperSelectorError(error: unknown): SuperSelectorErrorType {
+        // Ensure the caught error is of SuperSelectorErrorType or wrapped
+        if (error instanceof Error && "code" in error && typeof error.code === "string") {
+            // It's likely already a SuperSelectorError or compatible
+            return error as SuperSelectorErrorType
+        }
+        return ErrorFactory.execution(error instanceof Error ? error.message : String(error))
+    }
+
+    /**
+     * Emits an `execution:*` event. With `config.awaitHooks`, async runs wait for the promises
+     * returned by its listeners, for as long as the execution is not cancelled.
+     */
+    private emitHook(eventType: string, data: any, context: ExecutionContext): MaybePromise<void> {
+        const events: EventEmitter | undefined = context.metadata.events
+        if (!events) return // A silent run
+
+        if (!context.config.awaitHooks || context.metadata.synchronous) {
+            events.emit(eventType, data)
+            return
+        }
+
+        const cancellation: Cancellation = context.metadata.cancellation
+        return cancellation.race(events.emitAndWait(eventType, data))
+    }
+
+    private executeCommands(steps: readonly CompiledStep[], context: ExecutionContext): MaybePromise<SelectorValue> {
+        const depth = this.depths.get(context) ?? 0
+        if (depth > context.config.maxDepth) {
             throw ErrorFactory.execution(`Maximum execution depth exceeded: ${context.config.maxDepth}`)
         }
-        this.executionDepth++
 
+        return this.executeSteps(steps, 0, context.currentValue, context)
+    }
+
+    /**
+     * Runs steps from `start` on. Runs synchronously until a step returns a promise, then
+     * continues with the remaining steps once it resolves.
+     */
+    private executeSteps(
+        steps: readonly CompiledStep[],
+        start: number,
+        value: SelectorValue,
+        context: ExecutionContext,
+    ): MaybePromise<SelectorValue> {
+        const cancellation: Cancellation = context.metadata.cancellation
+        let currentValue = value
+        for (let i = start; i < steps.length; i++) {
+            context.currentValue = currentValue
+            cancellation.throwIfCancelled()
+
+            // //logger.debug(`Executing command ${i + 1}/${commands.length}: ${command.type} - ${command.name}`, {
+            //   currentValue: currentValue,
+            //   command: command,
+            // })
+
+            const result = this.enterStep(steps, i, context)
+
+            if (isPromiseLike<SelectorValue>(result)) {
+                return Promise.resolve(result).then((next) => this.executeSteps(steps, i + 1, next, context))
+            }
+
+            // //logger.debug(`Command ${i + 1} result:`, currentValue)
+
+            currentValue = result
+        }
+        return currentValue
+    }
+
+    private enterStep(steps: readonly CompiledStep[], index: number, context: ExecutionContext): MaybePromise<SelectorValue> {
+        // Without a debugger attached, pause points cost a single lookup
+        const paused =
+            context.metadata.debugger && !this.depths.has(context) ? this.pauseBefore(steps[index], index, context) : undefined
+        return paused ? paused.then(() => this.executeStep(steps, index, context)) : this.executeStep(steps, index, context)
+    }
+
+    /**
+     * Holds the execution while the debugger is paused before a command. The timeout clock stops
+     * meanwhile, but the caller's signal can still cancel it.
+     */
+    private pauseBefore(step: CompiledStep, index: number, context: ExecutionContext): Promise<void> | undefined {
+        const controller: Debugger = context.metadata.debugger
+        const session: DebugSession = context.metadata.debugSession
+        const { command } = step
+        const pause = controller.pausePoint(session, { index, command, ...this.sourceOf(command, context), context })
+        if (!pause) return undefined
+
+        const cancellation: Cancellation = context.metadata.cancellation
+        cancellation.suspend()
+        return cancellation.race(pause).then(
+            () => {
+                cancellation.resume()
+                cancellation.throwIfCancelled()
+            },
+            (error) => {
+                controller.cancel(session)
+                throw error
+            },
+        )
+    }
+
+    // The command as written in the selector, when the pipeline was parsed from one
+    /**
+     * The command as written in the selector. A command expanded from a macro is printed on its own and
+     * attributed to the call, e.g. `trim() (@cleanText)`, since every command of the expansion shares its span.
+     */
+    private sourceOf(command: Command, context: ExecutionContext): { source: string; span: SourceSpan | undefined } {
+        const origin: PipelineOrigin | undefined = context.metadata.origin
+        const span = origin?.spans.get(command)
+        const call = origin?.expansions?.get(command)
+        if (call !== undefined) {
+            return { source: `${this.printCommand(command)} (${call.trim()})`, span }
+        }
+        return { source: origin && span ? origin.selector.slice(span.start, span.end).trim() : command.name, span }
+    }
+
+    private printCommand(command: Command): string {
         try {
-            let currentValue = context.currentValue
-            for (let i = 0; i < commands.length; i++) {
-                const command = commands[i]
-                context.currentValue = currentValue
-
-                // //logger.debug(`Executing command ${i + 1}/${commands.length}: ${command.type} - ${command.name}`, {
-                //   currentValue: currentValue,
-                //   command: command,
-                // })
-
-                currentValue = await this.executeCommand(command, context)
-
-                // //logger.debug(`Command ${i + 1} result:`, currentValue)
-
-                if (currentValue === undefined && !context.hadSoftError && i < commands.length - 1) {
-                    const err = ErrorFactory.execution(
-                        `Command '${command.name}' resulted in undefined, breaking execution chain.`,
-                        command,
-                        context,
-                    )
-                    if (context.config.errorHandling === "throw") throw err
-
-                    context.hadSoftError = true
-                    context.softError = err
-                    currentValue = context.config.errorHandling === "return-default" ? context.config.defaultValue : null
-                }
+            return this.printer.print([command])
+        } catch {
+            return command.name // Commands without a selector form
+        }
+    }
 
-                this.eventEmitter.emit("command:executed", { command, result: currentValue })
-                if (context.hadSoftError && context.config.errorHandling !== "throw" && i < commands.length - 1) {
-                    //logger.debug(`Soft error occurred, continuing with value: ${currentValue}`)
-                }
+    private executeStep(steps: readonly CompiledStep[], index: number, context: ExecutionContext): MaybePromise<SelectorValue> {
+        const step = steps[index]
+        const execute = (): MaybePromise<SelectorValue> => {
+            const result = this.runStep(step, context)
+            if (!isPromiseLike<SelectorValue>(result)) {
+                return this.completeStep(steps, index, result, context)
             }
-            return currentValue
-        } finally {
-            this.executionDepth--
+
+            const cancellation: Cancellation = context.metadata.cancellation
+            const pending = Promise.resolve(result).catch((error) => {
+                throw this.withCommand(error, step.command, context)
+            })
+            return cancellation.race(pending).then((resolved) => this.completeStep(steps, index, resolved, context))
+        }
+
+        // Only the top-level pipeline is traced, not the sub-pipelines run per item
+        const trace: TraceStep[] | undefined = context.metadata.trace
+        const from = context.warnings!.length
+        return ensure(
+            () => (trace && !this.depths.has(context) ? this.traceStep(trace, step, index, context, execute) : execute()),
+            () => this.tagWarnings(step, index, context, from),
+        )
+    }
+
+    /**
+     * Tags the warnings raised during a step with the step's command, unless a nested command raised them.
+     * At the top level, they also get the step's index and a source span.
+     */
+    private tagWarnings(step: CompiledStep, index: number, context: ExecutionContext, from: number): void {
+        const warnings = context.warnings!
+        const topLevel = !this.depths.has(context)
+        const origin: PipelineOrigin | undefined = context.metadata.origin
+
+        for (let i = from; i < warnings.length; i++) {
+            const warning = warnings[i]
+            warning.command ??= step.command
+            if (topLevel) {
+                warning.index = index
+                warning.span = origin?.spans.get(warning.command) ?? origin?.spans.get(step.command)
+            }
+        }
+    }
+
+    private traceStep(
+        trace: TraceStep[],
+        step: CompiledStep,
+        index: number,
+        context: ExecutionContext,
+        execute: () => MaybePromise<SelectorValue>,
+    ): MaybePromise<SelectorValue> {
+        const { command } = step
+        const entry: TraceStep = {
+            index,
+            command,
+            ...this.sourceOf(command, context),
+            input: summarizeValue(context.currentValue),
+            duration: 0,
+        }
+        trace.push(entry)
+
+        const from = context.warnings!.length
+        const startTime = performance.now()
+        const finish = () => {
+            entry.duration = performance.now() - startTime
+            const warnings = context.warnings!.slice(from)
+            if (warnings.length > 0) {
+                entry.warnings = warnings
+                entry.softError = warnings[0].error
+            }
+        }
+
+        return recover(
+            () =>
+                chain(execute(), (value) => {
+                    finish()
+                    entry.output = summarizeValue(value)
+                    return value
+                }),
+            (error) => {
+                finish()
+                entry.error = error as SuperSelectorErrorType
+                throw error
+            },
+        )
+    }
+
+    private runStep(step: CompiledStep, context: ExecutionContext): MaybePromise<SelectorValue> {
+        let result: MaybePromise<SelectorValue>
+        try {
+            result = step.run(context)
+        } catch (error) {
+            throw this.withCommand(error, step.command, context)
+        }
+
+        if (isPromiseLike(result) && context.metadata.synchronous) {
+            // Nothing will wait for the handler any more: abort the run so it cleans up, and keep its
+            // rejection from going unhandled
+            const error = ErrorFactory.asyncCommand(step.command, context)
+            Promise.resolve(result).catch(() => undefined)
+            context.metadata.cancellation?.cancel(error)
+            throw error
         }
+        return result
     }
 
-    private async executeCommand(command: Command, context: ExecutionContext): Promise<SelectorValue> {
-        // //logger.debug(`executeCommand: ${command.type} - ${command.name}`, { currentValue: context.currentValue })
-        let err: SuperSelectorErrorType | undefined
+    private completeStep(
+        steps: readonly CompiledStep[],
+        index: number,
+        value: SelectorValue,
+        context: ExecutionContext,
+    ): SelectorValue {
+        const { command } = steps[index]
+        let currentValue = value
+
+        if (currentValue === undefined && !context.hadSoftError && index < steps.length - 1) {
+            currentValue = this.breakChain(command, context)
+        }
+
+        context.metadata.events?.emit("command:executed", { command, result: currentValue })
+        if (context.hadSoftError && context.config.errorHandling !== "throw" && index < steps.length - 1) {
+            //logger.debug(`Soft error occurred, continuing with value: ${currentValue}`)
+        }
+        return currentValue
+    }
+
+    // Only a pipeline's final command may return undefined; anywhere else it ends the chain with a soft error
+    private breakChain(command: Command, context: ExecutionContext): SelectorValue {
+        const err = ErrorFactory.execution(
+            `Command '${command.name}' resulted in undefined, breaking execution chain.`,
+            command,
+            context,
+        )
+        if (context.config.errorHandling === "throw") throw err
+
+        reportSoftError(context, "UNDEFINED_RESULT", err)
+        return context.config.errorHandling === "return-default" ? context.config.defaultValue : null
+    }
 
+    /**
+     * Attaches the failing command to execution and validation errors raised without one.
+     * Errors from nested pipelines already carry their innermost command and are kept as they are.
+     */
+    private withCommand(error: unknown, command: Command, context: ExecutionContext): unknown {
+        if (error instanceof ExecutionError && !error.command) {
+            return ErrorFactory.execution(error.message, command, error.context ?? context)
+        }
+        if (error instanceof ValidationError && !error.command) {
+            return ErrorFactory.validation(error.message, command)
+        }
+        if (error instanceof StrictModeError && !error.command) {
+            return ErrorFactory.strict(error.code, error.message, command, error.context ?? context)
+        }
+        return error
+    }
+
+    private compileCommands(commands: readonly Command[]): readonly CompiledStep[] {
+        return Object.freeze(commands.map((command) => Object.freeze({ command, run: this.compileCommand(command) })))
+    }
+
+    private compileCommand(command: Command): (context: ExecutionContext) => MaybePromise<SelectorValue> {
         switch (command.type) {
-            case "css-selector":
-                return commandRegistry.execute("css-selector", context, command.selector)
-
-            case "function":
-                if (context.currentValue === null || context.currentValue === undefined) {
-                    if (!context.hadSoftError) {
-                        context.hadSoftError = true
-                        err = ErrorFactory.execution(
-                            `Cannot call method '${command.name}' on null or undefined value`,
-                            command,
-                            context,
-                        )
-                        context.softError = err
-                    }
-                    if (context.config.errorHandling === "throw") {
-                        throw err || context.softError!
-                    }
-                    const defaultVal = context.config.errorHandling === "return-default" ? context.config.defaultValue : null
-                    return defaultVal
-                }
+            case "css-selector": {
+                const { selector } = command
+                return (context) => commandRegistry.execute("css-selector", context, selector)
+            }
 
-                // Add specific logging for getAttribute
-                if (command.name === "getAttribute") {
-                    console.log("=== getAttribute Debug ===")
-                    console.log("Current value:", context.currentValue)
-                    console.log("Current value type:", typeof context.currentValue)
-                    console.log("Is Element:", context.currentValue instanceof Element)
-                    console.log("Has getAttribute:", typeof (context.currentValue as any)?.getAttribute)
-                    console.log("Command args:", command.args)
-                }
+            case "xpath": {
+                const { expression } = command
+                return (context) => commandRegistry.execute("xpath", context, expression)
+            }
 
-                if (this.isNativeMethod(context.currentValue, command.name)) {
-                    return this.executeNativeMethod(context.currentValue, command.name, command.args)
-                }
+            case "function": {
+                const args = this.compileArguments(command.args)
+                const hasPipelineArgs = command.args.some((arg) => typeof arg !== "string")
+                return (context) => this.executeFunction(command, args, hasPipelineArgs, context)
+            }
 
-                if (commandRegistry.has(command.name)) {
-                    return commandRegistry.execute(command.name, context, ...command.args)
-                }
+            case "property": {
+                const { name } = command
+                return (context) => commandRegistry.execute("property", context, name)
+            }
 
-                if (!context.hadSoftError) {
-                    context.hadSoftError = true
-                    err = ErrorFactory.execution(`Unknown method or command: ${command.name}`, command, context)
-                    context.softError = err
-                }
-                if (context.config.errorHandling === "throw") {
-                    throw err || context.softError!
-                }
-                const defaultValUnknown = context.config.errorHandling === "return-default" ? context.config.defaultValue : null
-                return defaultValUnknown
+            case "property-path": {
+                const { segments } = command
+                return (context) => commandRegistry.execute("property-path", context, segments)
+            }
 
-            case "property":
-                return commandRegistry.execute("property", context, command.name)
+            case "array-access": {
+                const { index } = command
+                return (context) => commandRegistry.execute("array-access", context, index)
+            }
+
+            case "array-slice": {
+                const { start, end, step } = command
+                return (context) => commandRegistry.execute("array-slice", context, start, end, step)
+            }
 
-            case "array-access":
-                return commandRegistry.execute("array-access", context, command.index)
+            case "object": {
+                const fields: readonly CompiledField[] = Object.freeze(
+                    command.fields.map((field) => Object.freeze({ key: field.key, steps: this.compileCommands(field.commands) })),
+                )
+                return (context) => this.executeObject(command, fields, context)
+            }
+
+            case "fallback": {
+                const branches = Object.freeze(command.branches.map((branch) => this.compileCommands(branch)))
+                return (context) => this.executeFallback(command, branches, context)
+            }
 
             default:
-                throw ErrorFactory.execution(`Unknown command type: ${(command as any).type}`)
+                // Unknown commands fail when they run, like any other execution error
+                return () => {
+                    throw ErrorFactory.execution(`Unknown command type: ${(command as any).type}`)
+                }
         }
     }
 
+    private executeFunction(
+        command: FunctionCommand,
+        args: readonly CompiledArgument[],
+        hasPipelineArgs: boolean,
+        context: ExecutionContext,
+    ): MaybePromise<SelectorValue> {
+        if (context.currentValue === null || context.currentValue === undefined) {
+            const message = `Cannot call method '${command.name}' on null or undefined value`
+            const err = ErrorFactory.execution(message, command, context)
+            reportSoftError(context, "NULL_VALUE", err)
+            if (context.config.errorHandling === "throw") {
+                throw err
+            }
+            const defaultVal = context.config.errorHandling === "return-default" ? context.config.defaultValue : null
+            return defaultVal
+        }
+
+        // Add specific logging for getAttribute
+        if (command.name === "getAttribute") {
+            console.log("=== getAttribute Debug ===")
+            console.log("Current value:", context.currentValue)
+            console.log("Current value type:", typeof context.currentValue)
+            console.log("Is Element:", context.currentValue instanceof Element)
+            console.log("Has getAttribute:", typeof (context.currentValue as any)?.getAttribute)
+            console.log("Command args:", command.args)
+        }
+
+        const resolvedArgs = this.resolveArguments(args, context)
+
+        // Sub-pipeline arguments prefer registered commands, e.g. the built-in `filter` over Array.prototype.filter
+        const preferRegistry = hasPipelineArgs && commandRegistry.has(command.name)
+
+        if (!preferRegistry && this.isNativeMethod(context.currentValue, command.name)) {
+            return this.executeNativeMethod(context.currentValue, command.name, resolvedArgs)
+        }
+
+        if (commandRegistry.has(command.name)) {
+            // Commands registered as async are refused before they start, e.g. before they register listeners
+            if (context.metadata.synchronous && commandRegistry.get(command.name)!.async) {
+                throw ErrorFactory.asyncCommand(command, context)
+            }
+            return commandRegistry.execute(command.name, context, ...resolvedArgs)
+        }
+
+        const err = ErrorFactory.execution(`Unknown method or command: ${command.name}`, command, context)
+        reportSoftError(context, "UNKNOWN_METHOD", err)
+        if (context.config.errorHandling === "throw") {
+            throw err
+        }
+        const defaultValUnknown = context.config.errorHandling === "return-default" ? context.config.defaultValue : null
+        return defaultValUnknown
+    }
+
+    /**
+     * Builds one record per item by running each field's sub-pipeline against that item.
+     */
+    private executeObject(
+        command: ObjectCommand,
+        fields: readonly CompiledField[],
+        context: ExecutionContext,
+    ): MaybePromise<SelectorValue> {
+        const { currentValue } = context
+
+        if (currentValue === null || currentValue === undefined) {
+            const err = ErrorFactory.execution(`Cannot build object from null or undefined value`, command, context)
+            reportSoftError(context, "NULL_VALUE", err)
+            if (context.config.errorHandling === "throw") throw err
+            return context.config.errorHandling === "return-default" ? context.config.defaultValue : null
+        }
+
+        const buildRecord = (item: SelectorValue, itemIndex?: number): MaybePromise<Record<string, SelectorValue>> => {
+            const values = chainAll(fields.map((field) => this.executeSubPipeline(field.steps, item, context, itemIndex)))
+            return chain(values, (values) => {
+                const record: Record<string, SelectorValue> = {}
+                fields.forEach((field, index) => (record[field.key] = values[index]))
+                return record
+            })
+        }
+
+        if (Array.isArray(currentValue)) {
+            const records = currentValue.map((item, index) => buildRecord(item, index))
+            return chain(chainAll(records), (records) => (records.length > 0 ? records : null))
+        }
+
+        return buildRecord(currentValue)
+    }
+
+    /**
+     * Evaluates `||` branches left to right against the current value and returns the first
+     * non-null result that did not raise a soft error. If every branch fails, the last one's
+     * result and soft error are kept.
+     */
+    private executeFallback(
+        command: FallbackCommand,
+        branches: readonly (readonly CompiledStep[])[],
+        context: ExecutionContext,
+    ): MaybePromise<SelectorValue> {
+        const lastIndex = branches.length - 1
+
+        const tryBranch = (i: number): MaybePromise<SelectorValue> => {
+            if (i === lastIndex) {
+                return chain(this.executeSubPipeline(branches[lastIndex], context.currentValue, context), (result) => {
+                    if (result !== null && result !== undefined && !context.hadSoftError) {
+                        this.recordMatchedBranch(command, lastIndex, context)
+                    }
+                    return result
+                })
+            }
+
+            const branchContext = this.createSubContext(context.currentValue, context)
+            const outcome = recover(
+                () =>
+                    chain(this.executeCommands(branches[i], branchContext), (result) => {
+                        if (result !== null && result !== undefined && !branchContext.hadSoftError) {
+                            this.recordMatchedBranch(command, i, context)
+                            return { matched: true, result }
+                        }
+                        return { matched: false, result }
+                    }),
+                (error) => {
+                    if (endsExecution(error)) throw error
+                    // In "throw" mode a failing branch throws; move on to the next alternative
+                    //logger.debug(`Fallback branch ${i} failed`, error)
+                    return { matched: false, result: null }
+                },
+            )
+            return chain(outcome, ({ matched, result }) => (matched ? result : tryBranch(i + 1)))
+        }
+
+        return tryBranch(0)
+    }
+
+    private recordMatchedBranch(command: FallbackCommand, index: number, context: ExecutionContext): void {
+        const matched: Map<FallbackCommand, number> = context.metadata.matchedBranches ?? new Map()
+        matched.set(command, index)
+        context.metadata.matchedBranches = matched
+    }
+
+    /**
+     * Runs a nested pipeline against a single value with its own context.
+     * The first soft error raised inside is carried over to the parent context, and every warning is
+     * passed on, tagged with `itemIndex` when the pipeline runs per item.
+     */
+    private executeSubPipeline(
+        steps: readonly CompiledStep[],
+        value: SelectorValue,
+        parent: ExecutionContext,
+        itemIndex?: number,
+    ): MaybePromise<SelectorValue> {
+        const context = this.createSubContext(value, parent)
+
+        return chain(this.executeCommands(steps, context), (result) => {
+            if (context.hadSoftError && !parent.hadSoftError) {
+                parent.hadSoftError = true
+                parent.softError = context.softError
+            }
+            for (const warning of context.warnings!) {
+                warning.itemIndex ??= itemIndex
+                parent.warnings?.push(warning)
+            }
+            return result
+        })
+    }
+
+    private createSubContext(value: SelectorValue, parent: ExecutionContext): ExecutionContext {
+        const context: ExecutionContext = {
+            ...parent,
+            element: value instanceof Element || value instanceof Document ? value : parent.element,
+            currentValue: value,
+            hadSoftError: false,
+            softError: undefined,
+            warnings: [],
+        }
+        this.depths.set(context, (this.depths.get(parent) ?? 0) + 1)
+        return context
+    }
+
+    private compileArguments(args: CommandArgument[]): readonly CompiledArgument[] {
+        return Object.freeze(
+            args.map((arg): CompiledArgument => {
+                if (typeof arg === "string") return arg
+                if (arg.type === "expression") return { type: "expression", expression: arg.expression }
+                return { type: "pipe", steps: this.compileCommands(arg.commands) }
+            }),
+        )
+    }
+
+    /**
+     * Turns sub-pipeline and expression arguments into callables that handlers and native methods can invoke per item.
+     */
+    private resolveArguments(args: readonly CompiledArgument[], context: ExecutionContext): Array<string | SubPipeline> {
+        return args.map((arg) => {
+            if (typeof arg === "string") return arg
+            if (arg.type === "expression") {
+                const predicate: SubPipeline = (value) => evaluateExpression(arg.expression, value)
+                return predicate
+            }
+            const pipeline: SubPipeline = (value, itemIndex) => this.executeSubPipeline(arg.steps, value, context, itemIndex)
+            return pipeline
+        })
+    }
+
     private isNativeMethod(value: any, methodName: string): boolean {
-        if (value === null || value === undefined || (typeof value !== "object" && typeof value !== "function")) {
+        // Primitives are included so string methods such as `trim()` or `includes()` resolve natively
+        if (value === null || value === undefined) {
             return false
         }
         const hasMethod = typeof (value as any)[methodName] === "function"
@@ -233,32 +1001,43 @@ export class ExecutionEngine {
         return hasMethod
     }
 
-    private executeNativeMethod(value: any, methodName: string, args: string[]): SelectorValue {
-        try {
-            // //logger.debug(`executeNativeMethod: ${methodName}`, { value_type: typeof value, args })
-            const convertedArgs = args.map((arg) => {
-                if (arg === "true") return true
-                if (arg === "false") return false
-                const num = Number(arg)
-                // Ensure empty strings or strings that are just whitespace don't become 0
-                if (!isNaN(num) && isFinite(num) && arg.trim() !== "") return num
-                return arg
-            })
-            // //logger.debug(`Converted args for native method:`, convertedArgs)
-            const result = (value as any)[methodName](...convertedArgs)
-            // //logger.debug(`Native method '${methodName}' result:`, result)
-            return result
-        } catch (error) {
-            logger.error(`Error in executeNativeMethod '${methodName}':`, error)
-            throw ErrorFactory.execution(
-                `Error calling native method '${methodName}': ${error instanceof Error ? error.message : String(error)}`,
-            )
-        }
+    private executeNativeMethod(
+        value: any,
+        methodName: string,
+        args: Array<string | SubPipeline>,
+    ): MaybePromise<SelectorValue> {
+        // //logger.debug(`executeNativeMethod: ${methodName}`, { value_type: typeof value, args })
+        const convertedArgs = args.map((arg) => {
+            if (typeof arg === "function") return arg
+            if (arg === "true") return true
+            if (arg === "false") return false
+            const num = Number(arg)
+            // Ensure empty strings or strings that are just whitespace don't become 0
+            if (!isNaN(num) && isFinite(num) && arg.trim() !== "") return num
+            return arg
+        })
+        // //logger.debug(`Converted args for native method:`, convertedArgs)
+
+        // Methods returning a promise, such as `Response.json()`, are awaited like async commands
+        return recover(
+            () => (value as any)[methodName](...convertedArgs),
+            (error) => {
+                if (endsExecution(error)) throw error
+                logger.error(`Error in executeNativeMethod '${methodName}':`, error)
+                throw ErrorFactory.execution(
+                    `Error calling native method '${methodName}': ${error instanceof Error ? error.message : String(error)}`,
+                )
+            },
+        )
+    }
+
+    private getMatchedBranch(commands: readonly Command[], context: ExecutionContext): number | undefined {
+        if (commands.length !== 1 || commands[0].type !== "fallback") return undefined
+        return context.metadata.matchedBranches?.get(commands[0])
     }
 
-    private generateCacheKey(commands: Command[], element: Element | Document): string {
-        const commandsStr = JSON.stringify(commands)
+    private generateCacheKey(pipeline: CompiledPipeline, element: Element | Document): string {
         const elementId = element instanceof Element ? element.id || element.tagName + element.className : "document"
-        return `${commandsStr}:${elementId}`
+        return `${pipeline.cacheKey}:${elementId}`
     }
 }
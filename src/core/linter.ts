@@ -0,0 +1,219 @@
+import type { Command, FunctionCommand, LintDiagnostic, LintSeverity, SourceSpan, SubPipeline } from "../types"
+import type { CommandRegistry } from "../commands/registry"
+import { NATIVE_METHODS, NATIVE_PROPERTIES } from "../commands/native-methods"
+import { renderSnippet } from "../parser/diagnostics"
+import { evaluateExpression, type Expression } from "../parser/expression"
+
+/**
+ * Static checks over a parsed pipeline: unknown commands, argument counts, invalid CSS/XPath and
+ * patterns that can never produce a value. Nothing is executed against a page.
+ */
+export class Linter {
+    private registry: CommandRegistry
+    private source = ""
+    private spans = new WeakMap<Command, SourceSpan>()
+    private diagnostics: LintDiagnostic[] = []
+
+    constructor(registry: CommandRegistry) {
+        this.registry = registry
+    }
+
+    lint(source: string, commands: Command[], spans: WeakMap<Command, SourceSpan>): LintDiagnostic[] {
+        this.source = source
+        this.spans = spans
+        this.diagnostics = []
+
+        this.lintCommands(commands)
+
+        return this.diagnostics.sort((a, b) => a.start - b.start)
+    }
+
+    private lintCommands(commands: Command[]): void {
+        for (const command of commands) {
+            this.lintCommand(command)
+        }
+    }
+
+    private lintCommand(command: Command): void {
+        switch (command.type) {
+            case "css-selector":
+                if (typeof document !== "undefined" && !this.isValidCss(command.selector)) {
+                    this.report("INVALID_SELECTOR", "error", `Invalid CSS selector '${command.selector}'`, command)
+                }
+                break
+            case "xpath":
+                if (typeof document !== "undefined" && !this.isValidXPath(command.expression)) {
+                    this.report("INVALID_XPATH", "error", `Invalid XPath expression '${command.expression}'`, command)
+                }
+                break
+            case "function":
+                this.lintFunction(command)
+                break
+            case "property":
+                this.lintPropertyName(command.name, command)
+                break
+            case "property-path":
+                this.lintPropertyName(command.segments[0].key, command)
+                break
+            case "array-slice":
+                this.lintSlice(command.start, command.end, command.step, command)
+                break
+            case "object":
+                for (const field of command.fields) {
+                    this.lintCommands(field.commands)
+                }
+                break
+            case "fallback":
+                for (const branch of command.branches) {
+                    this.lintCommands(branch)
+                }
+                break
+        }
+    }
+
+    private lintFunction(command: FunctionCommand): void {
+        const handler = this.registry.get(command.name)
+        const arity = NATIVE_METHODS.get(command.name)
+        const hasPipelineArgs = command.args.some((arg) => typeof arg !== "string")
+
+        for (const arg of command.args) {
+            if (typeof arg === "string") continue
+            if (arg.type === "pipe") {
+                this.lintCommands(arg.commands)
+            } else if (!this.hasPath(arg.expression) && !evaluateExpression(arg.expression, null)) {
+                this.report("ALWAYS_EMPTY", "warning", `Condition '${arg.source}' is always false`, command)
+            }
+        }
+
+        if (!handler && !arity) {
+            const suggestions = this.suggest(command.name, [...this.registry.list(), ...NATIVE_METHODS.keys()])
+            this.report("UNKNOWN_COMMAND", "error", `Unknown method or command: ${command.name}`, command, suggestions)
+            return
+        }
+
+        // Mirrors the engine: registered commands win over native methods when given sub-pipelines
+        if (handler && (hasPipelineArgs || !arity)) {
+            const placeholder: SubPipeline = () => null
+            const args = command.args.map((arg) => (typeof arg === "string" ? arg : placeholder))
+            if (handler.validate && !handler.validate(args)) {
+                const usage = handler.description ? ` (${handler.description})` : ""
+                this.report("INVALID_ARGUMENTS", "error", `Invalid arguments for command '${command.name}'${usage}`, command)
+            }
+            return
+        }
+
+        const [min, max] = arity!
+        const count = command.args.length
+        const expected = min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min} to ${max}`
+        if (count < min || count > max) {
+            // Extra arguments are ignored by native methods, missing ones usually throw
+            this.report(
+                "INVALID_ARGUMENTS",
+                count < min ? "error" : "warning",
+                `'${command.name}' expects ${expected} argument${max === 1 && min === 1 ? "" : "s"}, got ${count}`,
+                command,
+            )
+        }
+    }
+
+    /**
+     * Unknown properties are legitimate on custom objects, so only near-misses of known ones are reported.
+     */
+    private lintPropertyName(name: string, command: Command): void {
+        if (NATIVE_PROPERTIES.includes(name) || NATIVE_METHODS.has(name)) return
+
+        const suggestions = this.suggest(name, NATIVE_PROPERTIES)
+        if (suggestions.length > 0) {
+            this.report("UNKNOWN_PROPERTY", "warning", `Unknown property '${name}'`, command, suggestions)
+        }
+    }
+
+    private lintSlice(start: number | null, end: number | null, step: number | null, command: Command): void {
+        if (step === 0) {
+            this.report("INVALID_SLICE", "error", `Slice step cannot be zero`, command)
+            return
+        }
+
+        // Bounds with the same sign can be compared without knowing the array length
+        if (start === null || end === null || start < 0 !== end < 0) return
+        const forward = (step ?? 1) > 0
+        if (forward ? start >= end : start <= end) {
+            const bounds = `${start}:${end}${step === null ? "" : `:${step}`}`
+            this.report("ALWAYS_EMPTY", "warning", `Slice [${bounds}] is always empty`, command)
+        }
+    }
+
+    private isValidCss(selector: string): boolean {
+        try {
+            document.createDocumentFragment().querySelector(selector)
+            return true
+        } catch (error) {
+            return false
+        }
+    }
+
+    private isValidXPath(expression: string): boolean {
+        try {
+            document.createExpression(expression, null)
+            return true
+        } catch (error) {
+            return false
+        }
+    }
+
+    private hasPath(expression: Expression): boolean {
+        switch (expression.kind) {
+            case "literal":
+                return false
+            case "path":
+                return true
+            case "not":
+                return this.hasPath(expression.operand)
+            default:
+                return this.hasPath(expression.left) || this.hasPath(expression.right)
+        }
+    }
+
+    /**
+     * Returns up to three candidates within a small edit distance of `name`, closest first.
+     */
+    private suggest(name: string, candidates: readonly string[]): string[] {
+        const limit = name.length <= 4 ? 1 : 2
+        return [...new Set(candidates)]
+            .map((candidate) => ({ candidate, distance: editDistance(name.toLowerCase(), candidate.toLowerCase()) }))
+            .filter(({ candidate, distance }) => candidate !== name && distance <= limit)
+            .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+            .slice(0, 3)
+            .map(({ candidate }) => candidate)
+    }
+
+    private report(code: string, severity: LintSeverity, message: string, command: Command, suggestions: string[] = []): void {
+        const span = this.spans.get(command) ?? { start: 0, end: this.source.length }
+        const hint = suggestions.length > 0 ? ` (did you mean ${suggestions.map((s) => `'${s}'`).join(" or ")}?)` : ""
+        this.diagnostics.push({
+            code,
+            severity,
+            message: message + hint,
+            start: span.start,
+            end: span.end,
+            snippet: renderSnippet(this.source, span),
+            suggestions,
+        })
+    }
+}
+
+// Levenshtein distance between two strings
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i]
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+        }
+        previous = current
+    }
+
+    return previous[b.length]
+}
@@ -0,0 +1,181 @@
+import type { Command, FunctionCommand, MigrationDifference, MigrationResult, ParsedCommand, SourceSpan } from "../types"
+import { CommandParser } from "../command-parser"
+import { NATIVE_METHODS, NATIVE_PROPERTIES } from "../commands/native-methods"
+import { Parser } from "../parser/parser"
+import { Printer } from "../parser/printer"
+
+// Legacy helpers whose V2 command takes the whole value and gives the same result as the legacy per-item calls
+const PER_VALUE_HELPERS = new Set(["getProp", "p", "matchProp", "propIncludes", "propIncludesLowercase"])
+
+// Legacy helpers that return null for non-matching items, which V2 leaves out
+const FILTERING_HELPERS = new Set(["propIncludes", "propIncludesLowercase"])
+
+const DOTTED_PATH_PATTERN = /^[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)+$/
+
+interface LegacySegment extends SourceSpan {
+    text: string
+}
+
+/**
+ * Rewrites selectors written for the legacy `CommandParser`/`SuperSelector` into V2 syntax.
+ *
+ * Segments are split and parsed exactly as the legacy parser does, then converted command by command.
+ * Legacy calls run once per item of an array, so calls without a V2 equivalent of that behaviour are
+ * wrapped in `map(| ...)`. Anything that still behaves differently is reported as a difference.
+ */
+export class Migrator {
+    private printer = new Printer()
+    private differences: MigrationDifference[] = []
+
+    migrate(selector: string): MigrationResult {
+        this.differences = []
+        this.checkQuotedPipes(selector)
+
+        const commands: Command[] = []
+        let mapped: Command[] | null = null // Consecutive calls collected into one map()
+        let mayHaveNullItems = false
+        let reportedNullItems = false
+
+        this.splitSegments(selector).forEach((segment, index) => {
+            if (!segment.text) {
+                this.report("EMPTY_SEGMENT", `Legacy selectors fail on an empty segment and return null; it was dropped`, segment)
+                return
+            }
+
+            for (const legacy of CommandParser.parseCommand(segment.text)) {
+                if (legacy.type !== "function" || PER_VALUE_HELPERS.has(legacy.command) || this.isPropertyCall(legacy)) {
+                    mapped = null
+                    commands.push(this.convert(legacy, segment, index))
+                    mayHaveNullItems = legacy.type === "property" || legacy.type === "function"
+                    continue
+                }
+
+                // Legacy skips null items before a call, a map() keeps them as null
+                if (mayHaveNullItems && !reportedNullItems) {
+                    this.report(
+                        "NULL_ITEMS",
+                        `Legacy drops null items before calling '${legacy.command}'; map() keeps them as null`,
+                        segment,
+                    )
+                    reportedNullItems = true
+                }
+
+                if (!mapped) {
+                    mapped = []
+                    commands.push({ type: "function", name: "map", args: [{ type: "pipe", name: "pipe", commands: mapped }] })
+                }
+                mapped.push(this.toFunction(legacy.command, legacy.params))
+                mayHaveNullItems = true
+                this.report(
+                    "MAPPED_CALL",
+                    `Legacy calls '${legacy.command}' on each item of an array, so it was wrapped in map(); ` +
+                        `V2 would call the array's own method`,
+                    segment,
+                )
+            }
+        })
+
+        return {
+            selector: this.printer.print(commands),
+            commands,
+            differences: this.differences,
+        }
+    }
+
+    private convert(legacy: ParsedCommand, segment: LegacySegment, index: number): Command {
+        switch (legacy.type) {
+            case "css-selector":
+                if (index > 0 && DOTTED_PATH_PATTERN.test(legacy.selector) && this.readsAsPropertyPath(legacy.selector)) {
+                    this.report(
+                        "DOTTED_SEGMENT",
+                        `Legacy reads '${legacy.selector}' as a CSS selector, kept as css('...'); ` +
+                            `in V2 the bare form is a property path`,
+                        segment,
+                    )
+                }
+                return { type: "css-selector", name: "css-selector", selector: legacy.selector }
+            case "property":
+                return { type: "property", name: legacy.name }
+            case "arrayPosition":
+                return { type: "array-access", name: "array-access", index: legacy.command }
+            case "function":
+                if (this.isPropertyCall(legacy)) {
+                    this.report(
+                        "CALL_AS_PROPERTY",
+                        `Legacy reads the property '${legacy.command}' when it is called; V2 reads it without parentheses`,
+                        segment,
+                    )
+                    return { type: "property", name: legacy.command }
+                }
+                if (FILTERING_HELPERS.has(legacy.command)) {
+                    this.report(
+                        "FILTERED_ITEMS",
+                        `Legacy '${legacy.command}' keeps null for items that do not match; V2 leaves them out`,
+                        segment,
+                    )
+                }
+                return this.toFunction(legacy.command, legacy.params)
+        }
+    }
+
+    private toFunction(name: string, params: string[] | null): FunctionCommand {
+        return { type: "function", name, args: params ?? [] }
+    }
+
+    // Legacy falls back to reading a property of the same name when there is no such method
+    private isPropertyCall(legacy: ParsedCommand): boolean {
+        return (
+            legacy.type === "function" &&
+            legacy.params === null &&
+            NATIVE_PROPERTIES.includes(legacy.command) &&
+            !NATIVE_METHODS.has(legacy.command)
+        )
+    }
+
+    private readsAsPropertyPath(segment: string): boolean {
+        const { commands } = new Parser().parse(`x | ${segment}`)
+        return commands[1]?.type === "property-path"
+    }
+
+    /**
+     * Splits at every `|` like the legacy parser, recording where each trimmed segment sits in the source.
+     */
+    private splitSegments(selector: string): LegacySegment[] {
+        let offset = 0
+        return selector.split("|").map((raw) => {
+            const start = offset + (raw.length - raw.trimStart().length)
+            offset += raw.length + 1
+            const text = raw.trim()
+            return { text, start, end: start + text.length }
+        })
+    }
+
+    private checkQuotedPipes(selector: string): void {
+        let quote: string | null = null
+        let quoteStart = 0
+
+        for (let i = 0; i < selector.length; i++) {
+            const char = selector[i]
+            if (quote) {
+                if (char === quote) {
+                    quote = null
+                } else if (char === "|") {
+                    const end = selector.indexOf(quote, i)
+                    this.report(
+                        "PIPE_IN_QUOTES",
+                        `Legacy splits at '|' even inside quotes; the pieces were migrated as separate segments`,
+                        { start: quoteStart, end: end === -1 ? selector.length : end + 1 },
+                    )
+                    return
+                }
+            } else if (char === '"' || char === "'") {
+                quote = char
+                quoteStart = i
+            }
+        }
+    }
+
+    private report(code: string, message: string, span: SourceSpan): void {
+        this.differences.push({ code, message, start: span.start, end: span.end })
+    }
+}
@@ -0,0 +1,48 @@
+import type { CompiledPipeline } from "./execution-engine"
+
+/**
+ * A node of a prefix tree over top-level commands. Pipelines that start with the same commands
+ * pass through the same nodes, so each shared command only has to run once.
+ */
+export interface PrefixNode {
+    readonly depth: number // Index of the node's command in every pipeline passing through, -1 for the root
+    pipeline: CompiledPipeline // Runs the node's command; a pipeline ending here if there is one
+    readonly children: Map<string, PrefixNode>
+    readonly keys: string[] // Every pipeline passing through, in batch order
+    readonly ends: string[] // Pipelines whose last command is this node's
+}
+
+/**
+ * Merges pipelines into a prefix tree. Commands are shared when they are structurally equal,
+ * the same comparison the result cache uses.
+ */
+export function buildPrefixTree(pipelines: ReadonlyMap<string, CompiledPipeline>): PrefixNode | null {
+    let root: PrefixNode | null = null
+
+    for (const [key, pipeline] of pipelines) {
+        root ??= createNode(-1, pipeline)
+        let node = root
+        node.keys.push(key)
+
+        pipeline.commands.forEach((command, depth) => {
+            const id = JSON.stringify(command)
+            let child = node.children.get(id)
+            if (!child) {
+                child = createNode(depth, pipeline)
+                node.children.set(id, child)
+            }
+            child.keys.push(key)
+            node = child
+        })
+
+        // The final command of a pipeline may return undefined without a soft error, so it runs as the last step
+        node.ends.push(key)
+        node.pipeline = pipeline
+    }
+
+    return root
+}
+
+function createNode(depth: number, pipeline: CompiledPipeline): PrefixNode {
+    return { depth, pipeline, children: new Map(), keys: [], ends: [] }
+}
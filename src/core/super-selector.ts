@@ -1,13 +1,40 @@
-import type { SuperSelectorConfig, ExecutionResult, SelectorValue, Plugin } from "../types"
+import type {
+    SuperSelectorConfig,
+    ExecutionResult,
+    ExecuteOptions,
+    SelectorValue,
+    Plugin,
+    ParseResult,
+    Command,
+    CompiledSelector,
+    LintDiagnostic,
+    LintResult,
+    CompletionItem,
+    CompletionProvider,
+    Macro,
+    MigrationResult,
+    SuperSelectorError,
+    TraceStep,
+    Unsubscribe,
+    WatchCallback,
+    WatchOptions,
+} from "../types"
 import { ConfigManager } from "./config"
 import { Parser } from "../parser/parser"
-import { ExecutionEngine } from "./execution-engine"
+import { Printer } from "../parser/printer"
+import { Linter } from "./linter"
+import { Completer } from "./completer"
+import { Migrator } from "./migrator"
+import { Watcher } from "./watcher"
+import { Debugger } from "./debugger"
+import { formatTrace } from "./trace"
+import { ExecutionEngine, type CompiledPipeline } from "./execution-engine"
 import { Cache } from "./cache"
 import { EventEmitter } from "./event-emitter"
 import { logger, LogLevel } from "./logger"
 import { commandRegistry } from "../commands/registry"
 import { registerBuiltInCommands } from "../commands/built-in"
-import { ErrorFactory } from "./errors"
+import { AsyncCommandError, ErrorFactory, type ParseError } from "./errors"
 
 /**
  * Main SuperSelector class - refactored for extensibility
@@ -17,18 +44,25 @@ export class SuperSelector {
 
     private configManager: ConfigManager
     private parser: Parser
+    private printer: Printer
+    private completer: Completer
     private executionEngine: ExecutionEngine
     private cache: Cache
     private eventEmitter: EventEmitter
     private plugins: Map<string, Plugin> = new Map()
+    private macros: Map<string, Macro> = new Map()
+    private watchers: Set<Watcher> = new Set()
+    private debugger: Debugger | null = null
     private initialized = false
 
     constructor(config: Partial<SuperSelectorConfig> = {}) {
         this.configManager = new ConfigManager(config)
-        this.parser = new Parser()
+        this.parser = new Parser({ macros: this.macros })
+        this.printer = new Printer()
         this.cache = new Cache(this.configManager.get("cacheTTL"))
         this.eventEmitter = new EventEmitter()
         this.executionEngine = new ExecutionEngine(this.cache, this.eventEmitter)
+        this.completer = new Completer(commandRegistry, (selector, root) => this.evaluatePrefix(selector, root))
 
         this.initialize()
     }
@@ -100,39 +134,306 @@ export class SuperSelector {
     }
 
     /**
-     * Execute a selector string
+     * Execute a selector string. The execution is bounded by `config.timeout` and can be cancelled
+     * with `options.signal`.
      */
-    async execute(selector: string, element: Element | Document = document): Promise<ExecutionResult> {
+    async execute(
+        selector: string,
+        element: Element | Document = document,
+        options: ExecuteOptions = {},
+    ): Promise<ExecutionResult> {
         if (!selector || !element) {
-            return {
-                success: false,
-                value: null,
-                error: ErrorFactory.validation("Selector and element are required"),
-                metadata: {
-                    executionTime: 0,
-                    commandsExecuted: 0,
-                    cacheHit: false,
-                },
-            }
+            return this.failedResult(ErrorFactory.validation("Selector and element are required"))
         }
 
         // Parse selector
         const parseResult = this.parser.parse(selector)
         if (!parseResult.isValid) {
-            return {
-                success: false,
-                value: null,
-                error: ErrorFactory.parse(`Parse errors: ${parseResult.errors.join(", ")}`),
-                metadata: {
-                    executionTime: 0,
-                    commandsExecuted: 0,
-                    cacheHit: false,
-                },
-            }
+            return this.failedResult(this.parseFailure(parseResult))
         }
 
         // Execute commands
-        return await this.executionEngine.execute(parseResult.commands, element, this.configManager.getAll())
+        const pipeline = this.executionEngine.compile(parseResult.commands, { selector, spans: parseResult.spans, expansions: parseResult.expansions })
+        return await this.executionEngine.executeCompiled(pipeline, element, this.configManager.getAll(), options)
+    }
+
+    /**
+     * Execute a selector without yielding, e.g. in a MutationObserver callback. Caching, events and error
+     * handling work as in `execute`, but hooks are never awaited. Throws an AsyncCommandError if the
+     * pipeline reaches an async command.
+     */
+    executeSync(selector: string, element: Element | Document = document, options: ExecuteOptions = {}): ExecutionResult {
+        if (!selector || !element) {
+            return this.failedResult(ErrorFactory.validation("Selector and element are required"))
+        }
+
+        const parseResult = this.parser.parse(selector)
+        if (!parseResult.isValid) {
+            return this.failedResult(this.parseFailure(parseResult))
+        }
+
+        const pipeline = this.executionEngine.compile(parseResult.commands, { selector, spans: parseResult.spans, expansions: parseResult.expansions })
+        const result = this.executionEngine.executeCompiledSync(pipeline, element, this.configManager.getAll(), options)
+        // Waiting is impossible here, so this is a usage error rather than a failed lookup
+        if (result.error instanceof AsyncCommandError) {
+            throw result.error
+        }
+        return result
+    }
+
+    /**
+     * Execute several selectors against one root and return their results by key. An array is keyed by
+     * the selectors themselves. Commands the selectors start with in common, such as
+     * `#product-root | .details`, run once; `result.metadata.sharedCommands` tells how many were shared.
+     */
+    async executeMany(
+        selectors: string[] | Record<string, string>,
+        root: Element | Document = document,
+        options: ExecuteOptions = {},
+    ): Promise<Record<string, ExecutionResult>> {
+        const entries = Array.isArray(selectors) ? selectors.map((selector) => [selector, selector]) : Object.entries(selectors)
+        const failed = new Map<string, ExecutionResult>()
+        const pipelines = new Map<string, CompiledPipeline>()
+
+        for (const [key, selector] of entries) {
+            if (!selector || !root) {
+                failed.set(key, this.failedResult(ErrorFactory.validation("Selector and element are required")))
+                continue
+            }
+
+            const parseResult = this.parser.parse(selector)
+            if (!parseResult.isValid) {
+                failed.set(key, this.failedResult(this.parseFailure(parseResult)))
+                continue
+            }
+            pipelines.set(key, this.executionEngine.compile(parseResult.commands, { selector, spans: parseResult.spans, expansions: parseResult.expansions }))
+        }
+
+        const results = await this.executionEngine.executeBatch(pipelines, root, this.configManager.getAll(), options)
+        return Object.fromEntries(entries.map(([key]) => [key, failed.get(key) ?? results.get(key)!]))
+    }
+
+    /**
+     * Execute a selector and record what each command received and returned in `result.trace`,
+     * e.g. to find the step that lost the data. Render the trace with `formatTrace`.
+     */
+    async explain(
+        selector: string,
+        element: Element | Document = document,
+        options: ExecuteOptions = {},
+    ): Promise<ExecutionResult> {
+        return this.execute(selector, element, { ...options, trace: true })
+    }
+
+    /**
+     * Render an execution trace as a plain-text table for logs
+     */
+    formatTrace(trace: readonly TraceStep[]): string {
+        return formatTrace(trace)
+    }
+
+    /**
+     * Parse a selector once into an immutable compiled selector that can be run many times.
+     * Throws a ParseError if the selector is invalid.
+     */
+    compile(selector: string): CompiledSelector {
+        const pipeline = this.compilePipeline(selector)
+        const missingElement = () => this.failedResult(ErrorFactory.validation("Element is required"))
+
+        return Object.freeze({
+            source: selector,
+            commands: pipeline.commands,
+            run: async (element: Element | Document = document, options: ExecuteOptions = {}) =>
+                element
+                    ? this.executionEngine.executeCompiled(pipeline, element, this.configManager.getAll(), options)
+                    : missingElement(),
+            runSync: (element: Element | Document = document, options: ExecuteOptions = {}) =>
+                element
+                    ? this.executionEngine.executeCompiledSync(pipeline, element, this.configManager.getAll(), options)
+                    : missingElement(),
+        })
+    }
+
+    /**
+     * Re-run a selector whenever the DOM under `root` changes and call back when its result changes.
+     * Returns a function that stops watching. Throws a ParseError if the selector is invalid.
+     */
+    watch(selector: string, root: Element | Document, callback: WatchCallback, options: WatchOptions = {}): Unsubscribe {
+        const pipeline = this.compilePipeline(selector)
+        // Re-runs must see the live DOM, never a cached result
+        const run = (element: Element | Document) =>
+            this.executionEngine.executeCompiled(pipeline, element, { ...this.configManager.getAll(), cacheEnabled: false })
+
+        const watcher = new Watcher(run, pipeline.commands, root, callback, options)
+        this.watchers.add(watcher)
+
+        return () => {
+            watcher.stop()
+            this.watchers.delete(watcher)
+        }
+    }
+
+    /**
+     * Attach a debugger that pauses async executions at breakpoints between top-level commands.
+     * Returns the attached debugger if there already is one.
+     */
+    attachDebugger(): Debugger {
+        if (!this.debugger) {
+            this.debugger = new Debugger()
+            this.executionEngine.setDebugger(this.debugger)
+        }
+        return this.debugger
+    }
+
+    /**
+     * Detach the debugger, letting any execution it holds run to completion
+     */
+    detachDebugger(): void {
+        if (!this.debugger) return
+        this.executionEngine.setDebugger(undefined)
+        this.debugger.releaseAll()
+        this.debugger = null
+    }
+
+    private compilePipeline(selector: string): CompiledPipeline {
+        const parseResult = this.parser.parse(selector)
+        if (!parseResult.isValid) {
+            throw this.parseFailure(parseResult)
+        }
+
+        return this.executionEngine.compile(deepFreeze(parseResult.commands), { selector, spans: parseResult.spans, expansions: parseResult.expansions })
+    }
+
+    /**
+     * Parse a selector without executing it, e.g. to show diagnostics in an editor
+     */
+    parse(selector: string): ParseResult {
+        return this.parser.parse(selector)
+    }
+
+    /**
+     * Statically check a selector against the registered commands and known DOM/String/Array methods
+     */
+    lint(selector: string): LintResult {
+        const parseResult = this.parser.parse(selector)
+
+        const diagnostics: LintDiagnostic[] = parseResult.isValid
+            ? new Linter(commandRegistry).lint(selector, parseResult.commands, parseResult.spans)
+            : parseResult.diagnostics.map((diagnostic) => ({ ...diagnostic, severity: "error", suggestions: [] }))
+
+        return {
+            isValid: diagnostics.every((diagnostic) => diagnostic.severity !== "error"),
+            diagnostics,
+        }
+    }
+
+    /**
+     * Print parsed commands back to a canonical selector string
+     */
+    print(commands: Command[]): string {
+        return this.printer.print(commands)
+    }
+
+    /**
+     * Rewrite a selector written for the legacy parser into equivalent V2 syntax, listing any
+     * behaviour that still differs
+     */
+    migrate(legacySelector: string): MigrationResult {
+        return new Migrator().migrate(legacySelector)
+    }
+
+    /**
+     * Define a macro that selectors on this instance can use as `@name`, or as `name(arg, ...)` when
+     * the body has `$1`, `$2`, ... slots. The body reads like the rest of a pipeline after a pipe, and
+     * arguments replace the slots as written, e.g. a quoted string or a `| ...` sub-pipeline.
+     * Redefining a macro does not affect already compiled selectors.
+     */
+    defineMacro(name: string, body: string): void {
+        if (!/^[A-Za-z_][\w-]*$/.test(name) || RESERVED_MACRO_NAMES.has(name) || commandRegistry.has(name)) {
+            throw ErrorFactory.validation(`Invalid macro name '${name}': expected an identifier that is not a command`)
+        }
+
+        const slots = Array.from(body.matchAll(/\$(\d+)/g), (match) => Number(match[1]))
+        if (slots.includes(0)) {
+            throw ErrorFactory.validation(`Macro '${name}' slots are numbered from $1`)
+        }
+        const macro: Macro = { name, body, arity: Math.max(0, ...slots) }
+
+        // Bodies without slots are checked now, including for cycles; parameterized ones when expanded
+        if (macro.arity === 0) {
+            const macros = new Map(this.macros).set(name, macro)
+            const parseResult = new Parser({ macros, expanding: [name], continuation: true }).parse(body)
+            if (!parseResult.isValid) {
+                throw this.parseFailure(parseResult)
+            }
+            if (parseResult.commands.length === 0) {
+                throw ErrorFactory.validation(`Macro '${name}' must have a non-empty body`)
+            }
+        }
+
+        this.macros.set(name, macro)
+    }
+
+    removeMacro(name: string): boolean {
+        return this.macros.delete(name)
+    }
+
+    getMacros(): Macro[] {
+        return Array.from(this.macros.values())
+    }
+
+    /**
+     * Completions at `cursor` in a possibly incomplete selector. With a root, tag/class/id suggestions
+     * come from its elements and property suggestions from the value of the pipeline before the cursor.
+     */
+    getCompletions(selector: string, cursor = selector.length, root?: Element | Document): CompletionItem[] {
+        return this.completer.getCompletions(selector, cursor, root)
+    }
+
+    addCompletionProvider(provider: CompletionProvider): void {
+        this.completer.addProvider(provider)
+    }
+
+    removeCompletionProvider(provider: CompletionProvider): boolean {
+        return this.completer.removeProvider(provider)
+    }
+
+    // Runs a complete pipeline prefix for completions; invalid or failing prefixes have no value
+    private evaluatePrefix(selector: string, root: Element | Document): SelectorValue | undefined {
+        const parseResult = this.parser.parse(selector)
+        if (!parseResult.isValid || parseResult.commands.length === 0) return undefined
+
+        try {
+            const pipeline = this.executionEngine.compile(parseResult.commands)
+            const result = this.executionEngine.previewCompiledSync(pipeline, root, this.configManager.getAll())
+            return result.success ? result.value : undefined
+        } catch (error) {
+            return undefined
+        }
+    }
+
+    private parseFailure(parseResult: ParseResult): ParseError {
+        const [first] = parseResult.diagnostics
+        return ErrorFactory.parse(
+            `Parse errors: ${parseResult.errors.join(", ")}`,
+            undefined,
+            first && { start: first.start, end: first.end },
+            first?.code,
+        )
+    }
+
+    private failedResult(error: SuperSelectorError): ExecutionResult {
+        return {
+            success: false,
+            value: null,
+            error,
+            metadata: {
+                executionTime: 0,
+                commandsExecuted: 0,
+                cacheHit: false,
+            },
+            errors: [],
+        }
     }
 
     /**
@@ -268,8 +569,17 @@ export class SuperSelector {
             this.unloadPlugin(pluginName)
         }
 
-        // Clear cache
+        // Stop watching
+        for (const watcher of this.watchers) {
+            watcher.stop()
+        }
+        this.watchers.clear()
+
+        this.detachDebugger()
+
+        // Clear cache and macros
         this.cache.clear()
+        this.macros.clear()
 
         // Remove all event listeners
         this.eventEmitter.removeAllListeners()
@@ -283,3 +593,19 @@ export class SuperSelector {
         //logger.info("SuperSelector destroyed")
     }
 }
+
+// Names the parser handles itself, so a macro could never be called by them
+const RESERVED_MACRO_NAMES = new Set(["css", "xpath", "where"])
+
+/**
+ * Freezes parsed commands and everything nested in them, so a compiled selector cannot drift from its source
+ */
+function deepFreeze<T>(value: T): T {
+    if (value && typeof value === "object" && !Object.isFrozen(value)) {
+        Object.freeze(value)
+        for (const nested of Object.values(value)) {
+            deepFreeze(nested)
+        }
+    }
+    return value
+}
@@ -0,0 +1,94 @@
+import type { SelectorValue, TraceStep, ValueSummary } from "../types"
+
+const MAX_PREVIEW = 40
+const MAX_ELEMENTS = 3
+const MAX_COLUMN = 48
+
+/**
+ * Describes a value for an execution trace without keeping a reference to it
+ */
+export function summarizeValue(value: SelectorValue): ValueSummary {
+    if (value === null) return { type: "null", preview: "null" }
+    if (value === undefined) return { type: "undefined", preview: "undefined" }
+
+    if (Array.isArray(value)) {
+        const elements = value.filter((item): item is Element => item instanceof Element)
+        const items = value.slice(0, MAX_ELEMENTS).map((item) => summarizeValue(item).preview)
+        const more = value.length > MAX_ELEMENTS ? ", …" : ""
+        return {
+            type: "array",
+            count: value.length,
+            ...(elements.length > 0 && { elements: elements.slice(0, MAX_ELEMENTS).map(describeElement) }),
+            preview: truncate(`[${value.length}] ${items.join(", ")}${more}`),
+        }
+    }
+
+    if (value instanceof Element) {
+        const descriptor = describeElement(value)
+        return { type: "element", elements: [descriptor], preview: descriptor }
+    }
+    if (value instanceof Document) return { type: "document", preview: "document" }
+
+    switch (typeof value) {
+        case "string":
+            return { type: "string", preview: truncate(JSON.stringify(value)) }
+        case "number":
+        case "boolean":
+        case "bigint":
+        case "symbol":
+            return { type: typeof value, preview: String(value) }
+        case "function":
+            return { type: "function", preview: `${value.name || "anonymous"}()` }
+    }
+
+    const name = Object.getPrototypeOf(value)?.constructor?.name
+    if (name && name !== "Object") return { type: "object", preview: name }
+    return { type: "object", preview: truncate(`{ ${Object.keys(value).join(", ")} }`) }
+}
+
+/**
+ * Renders a trace as a plain-text table, one row per command, e.g. for logs:
+ *
+ *     #  Command           Input            Output           Time    Error
+ *     0  #list li          document         [2] li, li.sale  0.2ms
+ *     1  [5]               [2] li, li.sale  null             0.0ms   (soft) Index 5 out of bounds
+ */
+export function formatTrace(trace: readonly TraceStep[]): string {
+    const header = ["#", "Command", "Input", "Output", "Time", "Error"]
+    const rows = trace.map((step) => [
+        String(step.index),
+        step.source,
+        step.input.preview,
+        step.output?.preview ?? "-",
+        `${step.duration.toFixed(1)}ms`,
+        step.error ? step.error.message : describeSoftErrors(step),
+    ])
+
+    // The error column comes last, so it is kept whole instead of truncated like the others
+    const lastColumn = header.length - 1
+    const table = [header, ...rows].map((row) =>
+        row.map((cell, column) => {
+            const text = cell.replace(/\s+/g, " ")
+            return column === lastColumn ? text : truncate(text, MAX_COLUMN)
+        }),
+    )
+    const widths = header.map((_, column) => Math.max(...table.map((row) => row[column].length)))
+
+    return table.map((row) => row.map((cell, column) => cell.padEnd(widths[column])).join("  ").trimEnd()).join("\n")
+}
+
+function describeSoftErrors(step: TraceStep): string {
+    if (!step.softError) return ""
+    const more = (step.warnings?.length ?? 1) - 1
+    return `(soft) ${step.softError.message}${more > 0 ? ` (+${more} more)` : ""}`
+}
+
+function describeElement(element: Element): string {
+    const id = element.id ? `#${element.id}` : ""
+    const classes = Array.from(element.classList, (name) => `.${name}`).join("")
+    return `${element.tagName.toLowerCase()}${id}${classes}`
+}
+
+function truncate(text: string, max = MAX_PREVIEW): string {
+    return text.length > max ? `${text.slice(0, max - 1)}…` : text
+}
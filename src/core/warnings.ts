@@ -0,0 +1,29 @@
+import type { ExecutionContext, SuperSelectorConfig, SuperSelectorError, WarningCode } from "../types"
+import { ErrorFactory } from "./errors"
+
+/**
+ * Records a soft error: the execution goes on with a fallback value, and the error is listed in
+ * `result.errors`. The first one is also kept as `context.softError`. Codes selected by `config.strict`
+ * are thrown instead as a StrictModeError carrying the code, failing the execution like a hard error.
+ */
+export function reportSoftError(
+    context: ExecutionContext,
+    code: WarningCode | (string & {}),
+    error: SuperSelectorError,
+    itemIndex?: number,
+): void {
+    if (isStrict(context.config, code)) {
+        throw ErrorFactory.strict(code, error.message, error.command, error.context)
+    }
+
+    if (!context.hadSoftError) {
+        context.hadSoftError = true
+        context.softError = error
+    }
+    context.warnings?.push({ code, message: error.message, error, command: error.command, itemIndex })
+}
+
+export function isStrict(config: SuperSelectorConfig, code: string): boolean {
+    const { strict } = config
+    return strict === true || (Array.isArray(strict) && strict.includes(code))
+}
@@ -0,0 +1,217 @@
+import type { Command, ExecutionResult, SelectorValue, WatchCallback, WatchEquality, WatchOptions } from "../types"
+import { logger } from "./logger"
+import { NATIVE_METHODS } from "../commands/native-methods"
+
+const DEFAULT_DEBOUNCE = 50
+
+// A leading `#id` whose element contains every match, i.e. followed only by descendant or child steps
+const ANCHOR_PATTERN = /^#[\w-]+(?=$|[\s>.:[])/
+
+// Properties that reach nodes outside the current element
+const LEAVING_PROPERTIES = new Set([
+    "assignedSlot",
+    "nextElementSibling",
+    "nextSibling",
+    "offsetParent",
+    "ownerDocument",
+    "parentElement",
+    "parentNode",
+    "previousElementSibling",
+    "previousSibling",
+])
+
+// Functions that only read the current value or query below it; sub-pipeline arguments are checked too
+const SUBTREE_FUNCTIONS = new Set([
+    ...Array.from(NATIVE_METHODS.keys()).filter((name) => !["closest", "getElementById"].includes(name)),
+    "every",
+    "filter",
+    "getProp",
+    "map",
+    "matchProp",
+    "p",
+    "propIncludes",
+    "propIncludesLowercase",
+    "some",
+    "sortBy",
+    "waitFor",
+    "waitUntil",
+    "where",
+])
+
+const OBSERVE_ALL: MutationObserverInit = { childList: true, subtree: true, attributes: true, characterData: true }
+
+/**
+ * Keeps one selector's result up to date: re-runs it after DOM changes under its root and calls back when the
+ * result changes. Mutations are coalesced with a debounce, and a run that is still pending absorbs the
+ * mutations that arrive meanwhile into a single follow-up run.
+ *
+ * When the selector starts with an `#id` and every later command stays inside that element, only its subtree
+ * is observed, plus its parent's children so the observer moves along when the element is replaced.
+ */
+export class Watcher {
+    private run: (root: Element | Document) => Promise<ExecutionResult>
+    private root: Element | Document
+    private callback: WatchCallback
+    private anchorSelector: string | null
+    private equals: (previous: SelectorValue, next: SelectorValue) => boolean
+    private debounce: number
+    private observer: MutationObserver
+    private anchor: Element | null = null
+    private timer: ReturnType<typeof setTimeout> | undefined
+    private running = false
+    private dirty = false
+    private stopped = false
+    private hasValue = false
+    private value: SelectorValue = null
+
+    constructor(
+        run: (root: Element | Document) => Promise<ExecutionResult>,
+        commands: readonly Command[],
+        root: Element | Document,
+        callback: WatchCallback,
+        options: WatchOptions = {},
+    ) {
+        this.run = run
+        this.root = root
+        this.callback = callback
+        this.anchorSelector = findAnchor(commands)
+        this.equals = toComparator(options.equality ?? "deep")
+        this.debounce = options.debounce ?? DEFAULT_DEBOUNCE
+        this.observer = new MutationObserver((mutations) => this.onMutations(mutations))
+
+        this.observe()
+        void this.evaluate(options.immediate ?? false)
+    }
+
+    stop(): void {
+        this.stopped = true
+        clearTimeout(this.timer)
+        this.observer.disconnect()
+    }
+
+    private onMutations(mutations: MutationRecord[]): void {
+        // The anchor was added, removed or replaced, so observe its current element instead
+        if (mutations.some((mutation) => mutation.type === "childList" && !this.anchor?.isConnected)) {
+            this.observe()
+        }
+
+        clearTimeout(this.timer)
+        this.timer = setTimeout(() => void this.evaluate(true), this.debounce)
+    }
+
+    private observe(): void {
+        this.observer.disconnect()
+        this.anchor = this.anchorSelector ? this.root.querySelector(this.anchorSelector) : null
+
+        if (this.anchor?.parentNode) {
+            this.observer.observe(this.anchor, OBSERVE_ALL)
+            this.observer.observe(this.anchor.parentNode, { childList: true })
+        } else {
+            this.observer.observe(this.root, OBSERVE_ALL)
+        }
+    }
+
+    private async evaluate(notify: boolean): Promise<void> {
+        if (this.running) {
+            this.dirty = true
+            return
+        }
+
+        this.running = true
+        try {
+            do {
+                this.dirty = false
+                const result = await this.run(this.root)
+                if (this.stopped) return
+
+                const changed = !this.hasValue || !this.equals(this.value, result.value)
+                this.value = result.value
+                this.hasValue = true
+
+                if (changed && notify) {
+                    try {
+                        this.callback(result.value, result)
+                    } catch (error) {
+                        logger.error("Error in watch callback:", error)
+                    }
+                }
+                notify = true
+            } while (this.dirty && !this.stopped)
+        } finally {
+            this.running = false
+        }
+    }
+}
+
+function findAnchor(commands: readonly Command[]): string | null {
+    const [first, ...rest] = commands
+    if (first?.type !== "css-selector" || /[,+~]/.test(first.selector)) return null
+    if (!rest.every(staysInSubtree)) return null
+    return ANCHOR_PATTERN.exec(first.selector.trim())?.[0] ?? null
+}
+
+/**
+ * True for commands known to read only the current value and the nodes below it. Anything else, such as
+ * an absolute `xpath()`, `parentElement`, `closest()`, `var()` or a custom command, may leave the subtree.
+ */
+function staysInSubtree(command: Command): boolean {
+    switch (command.type) {
+        case "css-selector":
+        case "array-access":
+        case "array-slice":
+            return true
+        case "xpath":
+            return command.expression.startsWith(".") // Relative to the current node
+        case "property":
+            return !LEAVING_PROPERTIES.has(command.name)
+        case "property-path":
+            return command.segments.every((segment) => !LEAVING_PROPERTIES.has(segment.key))
+        case "object":
+            return command.fields.every((field) => field.commands.every(staysInSubtree))
+        case "fallback":
+            return command.branches.every((branch) => branch.every(staysInSubtree))
+        case "function":
+            return (
+                SUBTREE_FUNCTIONS.has(command.name) &&
+                command.args.every((arg) => {
+                    if (typeof arg === "string") return !LEAVING_PROPERTIES.has(arg)
+                    return arg.type !== "pipe" || arg.commands.every(staysInSubtree)
+                })
+            )
+        default:
+            return false
+    }
+}
+
+function toComparator(equality: WatchEquality): (previous: SelectorValue, next: SelectorValue) => boolean {
+    if (typeof equality === "function") return equality
+    return equality === "identity" ? sameItems : deepEqual
+}
+
+function sameItems(previous: SelectorValue, next: SelectorValue): boolean {
+    if (Array.isArray(previous) && Array.isArray(next)) {
+        return previous.length === next.length && previous.every((item, index) => Object.is(item, next[index]))
+    }
+    return Object.is(previous, next)
+}
+
+function deepEqual(previous: any, next: any): boolean {
+    if (Object.is(previous, next)) return true
+    if (typeof previous !== "object" || typeof next !== "object" || previous === null || next === null) return false
+    if (previous instanceof Node || next instanceof Node) return false
+
+    if (Array.isArray(previous) || Array.isArray(next)) {
+        return (
+            Array.isArray(previous) &&
+            Array.isArray(next) &&
+            previous.length === next.length &&
+            previous.every((item, index) => deepEqual(item, next[index]))
+        )
+    }
+
+    const keys = Object.keys(previous)
+    return (
+        keys.length === Object.keys(next).length &&
+        keys.every((key) => Object.prototype.hasOwnProperty.call(next, key) && deepEqual(previous[key], next[key]))
+    )
+}
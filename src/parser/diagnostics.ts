@@ -0,0 +1,35 @@
+import type { ParseDiagnostic, SourceSpan } from "../types"
+import type { ParseError } from "../core/errors"
+
+/**
+ * Renders the source line containing `span` with a caret underline, e.g.
+ *
+ *     a | getAttribute("x" "y")
+ *                          ^^^
+ */
+export function renderSnippet(source: string, span: SourceSpan): string {
+    const start = Math.min(Math.max(span.start, 0), source.length)
+    const lineStart = source.lastIndexOf("\n", start - 1) + 1
+    const newline = source.indexOf("\n", start)
+    const lineEnd = newline === -1 ? source.length : newline
+
+    const line = source.slice(lineStart, lineEnd)
+    const column = start - lineStart
+    const width = Math.max(1, Math.min(span.end, lineEnd) - start)
+
+    return `${line}\n${" ".repeat(column)}${"^".repeat(width)}`
+}
+
+/**
+ * Converts a parse error raised for `source` into a diagnostic with its span and snippet.
+ */
+export function toDiagnostic(source: string, error: ParseError): ParseDiagnostic {
+    const span = error.span ?? { start: 0, end: source.length }
+    return {
+        code: error.diagnosticCode,
+        message: error.message,
+        start: span.start,
+        end: span.end,
+        snippet: renderSnippet(source, span),
+    }
+}
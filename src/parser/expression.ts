@@ -0,0 +1,352 @@
+import type { SelectorValue } from "../types"
+import { ErrorFactory } from "../core/errors"
+
+/**
+ * Predicate expression language used by `where(...)`, e.g. `dataset.stock > 0 && className ~= 'active'`.
+ * Expressions are tokenized and parsed here and evaluated by walking the AST - never with eval or Function.
+ */
+export enum ExpressionTokenType {
+    IDENTIFIER = "IDENTIFIER",
+    NUMBER = "NUMBER",
+    STRING = "STRING",
+    OPERATOR = "OPERATOR",
+    DOT = "DOT",
+    OPEN_PAREN = "OPEN_PAREN",
+    CLOSE_PAREN = "CLOSE_PAREN",
+    OPEN_BRACKET = "OPEN_BRACKET",
+    CLOSE_BRACKET = "CLOSE_BRACKET",
+    EOF = "EOF",
+}
+
+export interface ExpressionToken {
+    type: ExpressionTokenType
+    value: string
+    position: number
+}
+
+export type ComparisonOperator = "==" | "!=" | "<" | "<=" | ">" | ">=" | "~="
+export type LogicalOperator = "&&" | "||"
+
+export type Expression =
+    | { kind: "literal"; value: string | number | boolean | null }
+    | { kind: "path"; segments: string[] }
+    | { kind: "not"; operand: Expression }
+    | { kind: "comparison"; operator: ComparisonOperator; left: Expression; right: Expression }
+    | { kind: "logical"; operator: LogicalOperator; left: Expression; right: Expression }
+
+// Longest operators first so `<=` is not read as `<` followed by `=`
+const OPERATORS = ["&&", "||", "==", "!=", "<=", ">=", "~=", "<", ">", "!"]
+
+export class ExpressionTokenizer {
+    private input: string
+    private position = 0
+
+    constructor(input: string) {
+        this.input = input
+    }
+
+    tokenize(): ExpressionToken[] {
+        const tokens: ExpressionToken[] = []
+        this.position = 0
+
+        while (this.position < this.input.length) {
+            const char = this.input[this.position]
+
+            if (/\s/.test(char)) {
+                this.position++
+                continue
+            }
+
+            const start = this.position
+            const operator = OPERATORS.find((op) => this.input.startsWith(op, this.position))
+
+            if (operator) {
+                tokens.push({ type: ExpressionTokenType.OPERATOR, value: operator, position: start })
+                this.position += operator.length
+            } else if (char === '"' || char === "'") {
+                tokens.push({ type: ExpressionTokenType.STRING, value: this.readString(char), position: start })
+            } else if (/\d/.test(char) || (char === "-" && /\d/.test(this.input[this.position + 1] ?? ""))) {
+                tokens.push({ type: ExpressionTokenType.NUMBER, value: this.readWhile(/[-\d.]/), position: start })
+            } else if (/[a-zA-Z_$]/.test(char)) {
+                tokens.push({ type: ExpressionTokenType.IDENTIFIER, value: this.readWhile(/[\w$]/), position: start })
+            } else {
+                const punctuation: Record<string, ExpressionTokenType> = {
+                    ".": ExpressionTokenType.DOT,
+                    "(": ExpressionTokenType.OPEN_PAREN,
+                    ")": ExpressionTokenType.CLOSE_PAREN,
+                    "[": ExpressionTokenType.OPEN_BRACKET,
+                    "]": ExpressionTokenType.CLOSE_BRACKET,
+                }
+                if (!(char in punctuation)) {
+                    throw ErrorFactory.parse(`Unexpected character '${char}' at position ${start} in expression`)
+                }
+                tokens.push({ type: punctuation[char], value: char, position: start })
+                this.position++
+            }
+        }
+
+        tokens.push({ type: ExpressionTokenType.EOF, value: "", position: this.position })
+        return tokens
+    }
+
+    private readWhile(pattern: RegExp): string {
+        const start = this.position
+        while (this.position < this.input.length && pattern.test(this.input[this.position])) {
+            this.position++
+        }
+        return this.input.slice(start, this.position)
+    }
+
+    private readString(quote: string): string {
+        const start = this.position
+        this.position++ // Skip opening quote
+
+        let value = ""
+        while (this.position < this.input.length && this.input[this.position] !== quote) {
+            if (this.input[this.position] === "\\" && this.position + 1 < this.input.length) {
+                this.position++
+            }
+            value += this.input[this.position]
+            this.position++
+        }
+
+        if (this.position >= this.input.length) {
+            throw ErrorFactory.parse(`Unterminated string starting at position ${start} in expression`)
+        }
+
+        this.position++ // Skip closing quote
+        return value
+    }
+}
+
+/**
+ * Recursive descent parser for predicate expressions.
+ * Precedence from lowest to highest: `||`, `&&`, `!`, comparisons, operands.
+ */
+export class ExpressionParser {
+    private tokens: ExpressionToken[] = []
+    private position = 0
+
+    parse(input: string): Expression {
+        this.tokens = new ExpressionTokenizer(input).tokenize()
+        this.position = 0
+
+        if (this.peek().type === ExpressionTokenType.EOF) {
+            throw ErrorFactory.parse(`Expected an expression`)
+        }
+
+        const expression = this.parseOr()
+
+        if (this.peek().type !== ExpressionTokenType.EOF) {
+            throw ErrorFactory.parse(`Unexpected '${this.peek().value}' at position ${this.peek().position} in expression`)
+        }
+
+        return expression
+    }
+
+    private parseOr(): Expression {
+        let left = this.parseAnd()
+        while (this.matchOperator("||")) {
+            left = { kind: "logical", operator: "||", left, right: this.parseAnd() }
+        }
+        return left
+    }
+
+    private parseAnd(): Expression {
+        let left = this.parseNot()
+        while (this.matchOperator("&&")) {
+            left = { kind: "logical", operator: "&&", left, right: this.parseNot() }
+        }
+        return left
+    }
+
+    private parseNot(): Expression {
+        if (this.matchOperator("!")) {
+            return { kind: "not", operand: this.parseNot() }
+        }
+        return this.parseComparison()
+    }
+
+    private parseComparison(): Expression {
+        const left = this.parseOperand()
+        const token = this.peek()
+
+        if (token.type === ExpressionTokenType.OPERATOR && ["==", "!=", "<", "<=", ">", ">=", "~="].includes(token.value)) {
+            this.position++
+            const operator = token.value as ComparisonOperator
+            const right = this.parseOperand()
+
+            if (operator === "~=" && right.kind === "literal" && typeof right.value === "string") {
+                try {
+                    new RegExp(right.value)
+                } catch (error) {
+                    throw ErrorFactory.parse(`Invalid regex pattern in expression: ${right.value}`)
+                }
+            }
+
+            return { kind: "comparison", operator, left, right }
+        }
+
+        return left
+    }
+
+    private parseOperand(): Expression {
+        const token = this.peek()
+
+        switch (token.type) {
+            case ExpressionTokenType.NUMBER: {
+                this.position++
+                const value = Number(token.value)
+                if (isNaN(value)) {
+                    throw ErrorFactory.parse(`Invalid number in expression: ${token.value}`)
+                }
+                return { kind: "literal", value }
+            }
+            case ExpressionTokenType.STRING:
+                this.position++
+                return { kind: "literal", value: token.value }
+            case ExpressionTokenType.OPEN_PAREN: {
+                this.position++
+                const expression = this.parseOr()
+                this.expect(ExpressionTokenType.CLOSE_PAREN, "')'")
+                return expression
+            }
+            case ExpressionTokenType.IDENTIFIER:
+                if (token.value === "true" || token.value === "false") {
+                    this.position++
+                    return { kind: "literal", value: token.value === "true" }
+                }
+                if (token.value === "null") {
+                    this.position++
+                    return { kind: "literal", value: null }
+                }
+                return this.parsePath()
+            default:
+                throw ErrorFactory.parse(
+                    `Expected a value in expression, got '${token.value || "end of input"}' at position ${token.position}`,
+                )
+        }
+    }
+
+    private parsePath(): Expression {
+        const segments = [this.advance().value]
+
+        while (true) {
+            if (this.peek().type === ExpressionTokenType.DOT) {
+                this.position++
+                segments.push(this.expect(ExpressionTokenType.IDENTIFIER, "property name after '.'").value)
+            } else if (this.peek().type === ExpressionTokenType.OPEN_BRACKET) {
+                this.position++
+                const key = this.peek()
+                if (key.type !== ExpressionTokenType.STRING && key.type !== ExpressionTokenType.NUMBER) {
+                    throw ErrorFactory.parse(`Expected string or number key at position ${key.position} in expression`)
+                }
+                this.position++
+                segments.push(key.value)
+                this.expect(ExpressionTokenType.CLOSE_BRACKET, "']'")
+            } else {
+                break
+            }
+        }
+
+        return { kind: "path", segments }
+    }
+
+    private matchOperator(operator: string): boolean {
+        const token = this.peek()
+        if (token.type === ExpressionTokenType.OPERATOR && token.value === operator) {
+            this.position++
+            return true
+        }
+        return false
+    }
+
+    private expect(type: ExpressionTokenType, description: string): ExpressionToken {
+        const token = this.peek()
+        if (token.type !== type) {
+            throw ErrorFactory.parse(`Expected ${description} at position ${token.position} in expression`)
+        }
+        return this.advance()
+    }
+
+    private advance(): ExpressionToken {
+        return this.tokens[this.position++]
+    }
+
+    private peek(): ExpressionToken {
+        return this.tokens[this.position]
+    }
+}
+
+/**
+ * Evaluates an expression against a single item. Missing properties resolve to null.
+ */
+export function evaluateExpression(expression: Expression, item: SelectorValue): SelectorValue {
+    switch (expression.kind) {
+        case "literal":
+            return expression.value
+        case "path": {
+            let current: any = item
+            for (const segment of expression.segments) {
+                if (current === null || current === undefined) return null
+                current = current[segment]
+            }
+            return current === undefined ? null : current
+        }
+        case "not":
+            return !evaluateExpression(expression.operand, item)
+        case "logical": {
+            const left = evaluateExpression(expression.left, item)
+            if (expression.operator === "&&") return left ? evaluateExpression(expression.right, item) : left
+            return left ? left : evaluateExpression(expression.right, item)
+        }
+        case "comparison":
+            return compare(
+                expression.operator,
+                evaluateExpression(expression.left, item),
+                evaluateExpression(expression.right, item),
+            )
+    }
+}
+
+function compare(operator: ComparisonOperator, left: any, right: any): boolean {
+    if (operator === "~=") {
+        if (left === null || left === undefined) return false
+        return new RegExp(String(right)).test(String(left))
+    }
+
+    // Compare numerically when either side is a number and the other converts cleanly, e.g. dataset values
+    const leftNumber = toNumber(left)
+    const rightNumber = toNumber(right)
+    const numeric =
+        (typeof left === "number" || typeof right === "number") && leftNumber !== null && rightNumber !== null
+
+    const a = numeric ? leftNumber : left
+    const b = numeric ? rightNumber : right
+
+    switch (operator) {
+        case "==":
+            return a === b
+        case "!=":
+            return a !== b
+    }
+
+    if (a === null || a === undefined || b === null || b === undefined) return false
+
+    switch (operator) {
+        case "<":
+            return a < b
+        case "<=":
+            return a <= b
+        case ">":
+            return a > b
+        case ">=":
+            return a >= b
+    }
+}
+
+function toNumber(value: any): number | null {
+    if (typeof value === "number") return value
+    if (typeof value === "string" && value.trim() !== "" && isFinite(Number(value))) return Number(value)
+    return null
+}
@@ -1,6 +1,26 @@
-import type { Command, ParseResult } from "../types"
+import type {
+    Command,
+    CommandArgument,
+    Macro,
+    ObjectField,
+    ParseResult,
+    PipeCommand,
+    PropertyPathSegment,
+    SourceSpan,
+} from "../types"
 import { Tokenizer, TokenType, type Token } from "./tokenizer"
-import { ErrorFactory } from "../core/errors"
+import { ExpressionParser } from "./expression"
+import { toDiagnostic } from "./diagnostics"
+import { ErrorFactory, ParseError } from "../core/errors"
+
+export interface ParserOptions {
+    // Macros expanded inline at `@name` or `name(...)`; the map is read at parse time, so later definitions apply
+    macros?: ReadonlyMap<string, Macro>
+    // Names of the macros being expanded by enclosing parsers, innermost last, for cycle detection
+    expanding?: readonly string[]
+    // Parse the input as the rest of a pipeline after a pipe, as macro bodies are
+    continuation?: boolean
+}
 
 /**
  * Parser for SuperSelector syntax
@@ -8,40 +28,121 @@ import { ErrorFactory } from "../core/errors"
 export class Parser {
     private tokens: Token[] = []
     private position = 0
+    private expressionParser = new ExpressionParser()
+    private macros: ReadonlyMap<string, Macro>
+    private expanding: readonly string[]
+    private continuation: boolean
+
+    private source = ""
+    private parseErrors: ParseError[] = []
+    private spans = new WeakMap<Command, SourceSpan>()
+    private expansions = new WeakMap<Command, string>()
+
+    constructor(options: ParserOptions = {}) {
+        this.macros = options.macros ?? new Map()
+        this.expanding = options.expanding ?? []
+        this.continuation = options.continuation ?? false
+    }
 
     parse(input: string): ParseResult {
         try {
-            const tokenizer = new Tokenizer(input)
+            const tokenizer = new Tokenizer(input, { recover: true, continuation: this.continuation })
             this.tokens = tokenizer.tokenize()
             this.position = 0
+            this.source = input
+            this.parseErrors = tokenizer.getErrors()
+            this.spans = new WeakMap()
+            this.expansions = new WeakMap()
 
-            const commands = this.parseCommands()
+            const commands = this.parseAlternatives()
+            const diagnostics = this.parseErrors
+                .sort((a, b) => (a.span?.start ?? 0) - (b.span?.start ?? 0))
+                .map((error) => toDiagnostic(input, error))
 
             return {
-                commands,
-                isValid: true,
-                errors: [],
+                commands: diagnostics.length === 0 ? commands : [],
+                isValid: diagnostics.length === 0,
+                errors: diagnostics.map((diagnostic) => diagnostic.message),
+                diagnostics,
+                spans: this.spans,
+                expansions: this.expansions,
             }
         } catch (error) {
+            const parseError =
+                error instanceof ParseError
+                    ? error
+                    : ErrorFactory.parse(error instanceof Error ? error.message : String(error))
+            const diagnostic = toDiagnostic(input, parseError)
             return {
                 commands: [],
                 isValid: false,
-                errors: [error instanceof Error ? error.message : String(error)],
+                errors: [diagnostic.message],
+                diagnostics: [diagnostic],
+                spans: new WeakMap(),
+                expansions: new WeakMap(),
             }
         }
     }
 
-    private parseCommands(): Command[] {
+    /**
+     * Parses one or more pipelines separated by `||`. A single pipeline is returned as-is,
+     * alternatives are wrapped in a fallback command.
+     */
+    private parseAlternatives(terminators: TokenType[] = []): Command[] {
+        const branchTerminators = [...terminators, TokenType.OR]
+        const start = this.position
+        const errorCount = this.parseErrors.length
+        const branches = [this.parseCommands(branchTerminators)]
+
+        while (this.match(TokenType.OR)) {
+            this.advance() // consume '||'
+            branches.push(this.parseCommands(branchTerminators))
+        }
+
+        if (branches.length === 1) {
+            return branches[0]
+        }
+
+        if (branches.some((branch) => branch.length === 0) && !this.hasRecoveredSince(errorCount)) {
+            throw this.error("EMPTY_PIPELINE", `Expected a pipeline on both sides of '||'`)
+        }
+
+        const fallback: Command = {
+            type: "fallback",
+            name: "fallback",
+            branches,
+        }
+        this.recordSpan(fallback, start)
+        return [fallback]
+    }
+
+    /**
+     * Parses piped commands until the end of input or one of the given terminator tokens.
+     */
+    private parseCommands(terminators: TokenType[] = []): Command[] {
         const commands: Command[] = []
 
-        while (!this.isAtEnd()) {
-            const command = this.parseCommand()
-            if (command) {
-                commands.push(command)
+        while (!this.isAtEnd() && !terminators.some((type) => this.match(type))) {
+            const commandStart = this.position
+            try {
+                const macro = this.peekMacro()
+                if (macro) {
+                    commands.push(...this.expandMacro(macro, commandStart))
+                } else {
+                    const command = this.parseCommand()
+                    if (command) {
+                        this.recordSpan(command, commandStart)
+                        commands.push(command)
+                    }
+                }
+            } catch (error) {
+                if (!(error instanceof ParseError)) throw error
+                this.recordError(error, commandStart)
+                this.synchronize(commandStart, terminators)
             }
 
-            // Skip pipe if present
-            if (this.match(TokenType.PIPE)) {
+            // Skip pipe if present; a call chained with `.name(...)` continues the pipeline the same way
+            if (this.match(TokenType.PIPE) || this.match(TokenType.DOT)) {
                 this.advance()
             }
         }
@@ -49,6 +150,69 @@ export class Parser {
         return commands
     }
 
+    /**
+     * Returns the macro called by the current token: `@name` or `name(...)`. A bare `name` stays a property.
+     */
+    private peekMacro(): Macro | undefined {
+        const token = this.peek()
+        const isExplicitProperty = token.type === TokenType.PROPERTY && this.source[token.position] === "@"
+        return isExplicitProperty || token.type === TokenType.FUNCTION_NAME ? this.macros.get(token.value) : undefined
+    }
+
+    /**
+     * Expands a macro call in place: slots are replaced by the arguments as written and the body is
+     * parsed as the rest of a pipeline with the same macro table. The expanded commands all map to
+     * the span of the call.
+     */
+    private expandMacro(macro: Macro, commandStart: number): Command[] {
+        const nameToken = this.advance()
+        const args: string[] = []
+
+        if (nameToken.type === TokenType.FUNCTION_NAME) {
+            this.advance() // consume '('
+            while (!this.match(TokenType.CLOSE_PAREN) && !this.isAtEnd()) {
+                const argStart = this.position
+                this.parseArgument()
+                const { start, end } = this.spanSince(argStart)
+                args.push(this.source.slice(start, end))
+
+                if (this.match(TokenType.COMMA)) {
+                    this.advance()
+                } else if (!this.match(TokenType.CLOSE_PAREN)) {
+                    throw this.error("EXPECTED_TOKEN", `Expected ',' or ')' in macro arguments`)
+                }
+            }
+
+            if (!this.match(TokenType.CLOSE_PAREN)) {
+                throw this.error("EXPECTED_TOKEN", `Expected ')' to close macro call`)
+            }
+            this.advance() // consume ')'
+        }
+
+        const span = this.spanSince(commandStart)
+        if (args.length !== macro.arity) {
+            const expected = `${macro.arity} argument${macro.arity === 1 ? "" : "s"}`
+            throw ErrorFactory.parse(`Macro '${macro.name}' expects ${expected}, got ${args.length}`, undefined, span, "MACRO_ARGUMENTS")
+        }
+        if (this.expanding.includes(macro.name)) {
+            const cycle = [...this.expanding.slice(this.expanding.indexOf(macro.name)), macro.name].join(" -> ")
+            throw ErrorFactory.parse(`Macro cycle: ${cycle}`, undefined, span, "MACRO_CYCLE")
+        }
+
+        const body = macro.body.replace(/\$(\d+)/g, (_, slot: string) => args[Number(slot) - 1])
+        const expanding = [...this.expanding, macro.name]
+        const result = new Parser({ macros: this.macros, expanding, continuation: true }).parse(body)
+        if (!result.isValid) {
+            const [first] = result.diagnostics
+            // A cycle already names every macro involved
+            const message = first.code === "MACRO_CYCLE" ? first.message : `In macro '${macro.name}': ${first.message}`
+            throw ErrorFactory.parse(message, undefined, span, first.code)
+        }
+
+        this.recordExpansionSpans(result.commands, span)
+        return result.commands
+    }
+
     private parseCommand(): Command | null {
         const token = this.peek()
 
@@ -56,18 +220,29 @@ export class Parser {
             case TokenType.CSS_SELECTOR:
                 return this.parseCssSelector()
             case TokenType.FUNCTION_NAME:
-                return this.parseFunction()
+                return token.value === "css" || token.value === "xpath" ? this.parseExplicitSegment() : this.parseFunction()
+            case TokenType.XPATH:
+                return this.parseXPath()
             case TokenType.PROPERTY:
                 return this.parseProperty()
+            case TokenType.PROPERTY_PATH:
+                return this.parsePropertyPath()
             case TokenType.OPEN_BRACKET:
                 return this.parseArrayAccess()
+            case TokenType.OPEN_BRACE:
+                return this.parseObject()
             default:
-                throw ErrorFactory.parse(`Unexpected token: ${token.type} at position ${token.position}`)
+                throw this.error("UNEXPECTED_TOKEN", `Unexpected token: ${token.type} at position ${token.position}`)
         }
     }
 
     private parseCssSelector(): Command {
-        const token = this.advance()
+        const token = this.peek()
+        if (!token.value.trim()) {
+            throw this.error("EMPTY_SELECTOR", `Expected a non-empty CSS selector at position ${token.position}`)
+        }
+
+        this.advance()
         return {
             type: "css-selector",
             name: "css-selector",
@@ -75,16 +250,58 @@ export class Parser {
         }
     }
 
+    private parseXPath(): Command {
+        const token = this.peek()
+        if (!token.value.trim()) {
+            throw this.error("EMPTY_SELECTOR", `Expected a non-empty XPath expression at position ${token.position}`)
+        }
+
+        this.advance()
+        return {
+            type: "xpath",
+            name: "xpath",
+            expression: token.value,
+        }
+    }
+
+    /**
+     * Parses `css("...")` or `xpath("...")`, explicit segments that parse to the same commands as
+     * a bare CSS selector or a bare `/...` XPath expression.
+     */
+    private parseExplicitSegment(): Command {
+        const nameToken = this.advance()
+
+        if (!this.match(TokenType.OPEN_PAREN)) {
+            throw this.error("EXPECTED_TOKEN", `Expected '(' after function name '${nameToken.value}'`)
+        }
+        this.advance() // consume '('
+
+        if (!this.match(TokenType.STRING)) {
+            throw this.error(
+                "INVALID_ARGUMENT",
+                `${nameToken.value}() expects a single quoted selector, got ${this.peek().type}`,
+            )
+        }
+        const segment = nameToken.value === "css" ? this.parseCssSelector() : this.parseXPath()
+
+        if (!this.match(TokenType.CLOSE_PAREN)) {
+            throw this.error("EXPECTED_TOKEN", `Expected ')' to close ${nameToken.value}()`)
+        }
+        this.advance() // consume ')'
+
+        return segment
+    }
+
     private parseFunction(): Command {
         const nameToken = this.advance()
 
         if (!this.match(TokenType.OPEN_PAREN)) {
-            throw ErrorFactory.parse(`Expected '(' after function name '${nameToken.value}'`)
+            throw this.error("EXPECTED_TOKEN", `Expected '(' after function name '${nameToken.value}'`)
         }
 
         this.advance() // consume '('
 
-        const args: string[] = []
+        const args: CommandArgument[] = []
 
         while (!this.match(TokenType.CLOSE_PAREN) && !this.isAtEnd()) {
             const arg = this.parseArgument()
@@ -93,12 +310,12 @@ export class Parser {
             if (this.match(TokenType.COMMA)) {
                 this.advance()
             } else if (!this.match(TokenType.CLOSE_PAREN)) {
-                throw ErrorFactory.parse(`Expected ',' or ')' in function arguments`)
+                throw this.error("EXPECTED_TOKEN", `Expected ',' or ')' in function arguments`)
             }
         }
 
         if (!this.match(TokenType.CLOSE_PAREN)) {
-            throw ErrorFactory.parse(`Expected ')' to close function call`)
+            throw this.error("EXPECTED_TOKEN", `Expected ')' to close function call`)
         }
 
         this.advance() // consume ')'
@@ -118,22 +335,50 @@ export class Parser {
         }
     }
 
+    /**
+     * Splits a path token such as `attributes['data-x']?.value` into its segments.
+     */
+    private parsePropertyPath(): Command {
+        const token = this.advance()
+        const segments: PropertyPathSegment[] = []
+        const pattern = /(\?\.)?(?:\.?([A-Za-z_$][\w$]*)|\[\s*(?:(\d+)|'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)")\s*\])/y
+
+        while (pattern.lastIndex < token.value.length) {
+            const match = pattern.exec(token.value)
+            if (!match) {
+                throw this.error("INVALID_PROPERTY_PATH", `Invalid property path '${token.value}' at position ${token.position}`, token)
+            }
+
+            const [, optional, identifier, index, singleQuoted, doubleQuoted] = match
+            const quoted = singleQuoted ?? doubleQuoted
+            segments.push({
+                key: identifier ?? index ?? quoted!.replace(/\\(.)/g, "$1"),
+                optional: optional !== undefined,
+            })
+        }
+
+        return {
+            type: "property-path",
+            name: "property-path",
+            segments,
+        }
+    }
+
     private parseArrayAccess(): Command {
         this.advance() // consume '['
 
-        if (!this.match(TokenType.NUMBER)) {
-            throw ErrorFactory.parse(`Expected number in array access`)
-        }
+        const start = this.parseSliceBound()
 
-        const indexToken = this.advance()
-        const index = Number.parseInt(indexToken.value, 10)
+        if (this.match(TokenType.COLON)) {
+            return this.parseArraySlice(start)
+        }
 
-        if (isNaN(index)) {
-            throw ErrorFactory.parse(`Invalid number in array access: ${indexToken.value}`)
+        if (start === null) {
+            throw this.error("INVALID_ARRAY_INDEX", `Expected number in array access`)
         }
 
         if (!this.match(TokenType.CLOSE_BRACKET)) {
-            throw ErrorFactory.parse(`Expected ']' to close array access`)
+            throw this.error("EXPECTED_TOKEN", `Expected ']' to close array access`)
         }
 
         this.advance() // consume ']'
@@ -141,22 +386,252 @@ export class Parser {
         return {
             type: "array-access",
             name: "array-access",
-            index,
+            index: start,
+        }
+    }
+
+    private parseArraySlice(start: number | null): Command {
+        this.advance() // consume ':'
+
+        const end = this.parseSliceBound()
+        let step: number | null = null
+
+        if (this.match(TokenType.COLON)) {
+            this.advance() // consume second ':'
+            step = this.parseSliceBound()
+        }
+
+        if (!this.match(TokenType.CLOSE_BRACKET)) {
+            throw this.error("EXPECTED_TOKEN", `Expected ']' to close array slice`)
+        }
+
+        this.advance() // consume ']'
+
+        return {
+            type: "array-slice",
+            name: "array-slice",
+            start,
+            end,
+            step,
+        }
+    }
+
+    /**
+     * Parses an optional integer inside array brackets, returning null when it is omitted.
+     */
+    private parseSliceBound(): number | null {
+        if (!this.match(TokenType.NUMBER)) {
+            if (this.match(TokenType.COLON) || this.match(TokenType.CLOSE_BRACKET)) {
+                return null
+            }
+            throw this.error("INVALID_ARRAY_INDEX", `Expected number in array access`)
+        }
+
+        const token = this.advance()
+        const value = Number.parseInt(token.value, 10)
+
+        if (isNaN(value)) {
+            throw this.error("INVALID_ARRAY_INDEX", `Invalid number in array access: ${token.value}`, token)
+        }
+
+        return value
+    }
+
+    private parseObject(): Command {
+        this.advance() // consume '{'
+
+        const fields: ObjectField[] = []
+
+        while (!this.match(TokenType.CLOSE_BRACE) && !this.isAtEnd()) {
+            if (!this.match(TokenType.PROPERTY) && !this.match(TokenType.STRING)) {
+                throw this.error("INVALID_OBJECT_FIELD", `Expected field name in object projection, got ${this.peek().type}`)
+            }
+
+            const key = this.advance().value
+
+            if (!this.match(TokenType.COLON)) {
+                throw this.error("EXPECTED_TOKEN", `Expected ':' after field name '${key}'`)
+            }
+
+            this.advance() // consume ':'
+
+            const errorCount = this.parseErrors.length
+            const commands = this.parseAlternatives([TokenType.COMMA, TokenType.CLOSE_BRACE])
+            if (commands.length === 0 && !this.hasRecoveredSince(errorCount)) {
+                throw this.error("EMPTY_PIPELINE", `Expected a pipeline for field '${key}'`)
+            }
+
+            fields.push({ key, commands })
+
+            if (this.match(TokenType.COMMA)) {
+                this.advance()
+            } else if (!this.match(TokenType.CLOSE_BRACE)) {
+                throw this.error("EXPECTED_TOKEN", `Expected ',' or '}' in object projection`)
+            }
+        }
+
+        if (!this.match(TokenType.CLOSE_BRACE)) {
+            throw this.error("EXPECTED_TOKEN", `Expected '}' to close object projection`)
+        }
+
+        this.advance() // consume '}'
+
+        if (fields.length === 0) {
+            throw this.error("INVALID_OBJECT_FIELD", `Object projection must declare at least one field`, this.previous())
+        }
+
+        return {
+            type: "object",
+            name: "object",
+            fields,
         }
     }
 
-    private parseArgument(): string {
+    private parseArgument(): CommandArgument {
         const token = this.peek()
 
         if (token.type === TokenType.STRING || token.type === TokenType.NUMBER) {
             return this.advance().value
         } else if (token.type === TokenType.PROPERTY) {
             return this.advance().value
+        } else if (token.type === TokenType.PIPE) {
+            return this.parsePipelineArgument()
+        } else if (token.type === TokenType.EXPRESSION) {
+            const expressionToken = this.advance()
+            try {
+                return {
+                    type: "expression",
+                    source: expressionToken.value,
+                    expression: this.expressionParser.parse(expressionToken.value),
+                }
+            } catch (error) {
+                throw this.error(
+                    "INVALID_EXPRESSION",
+                    error instanceof Error ? error.message : String(error),
+                    expressionToken,
+                )
+            }
         } else {
-            throw ErrorFactory.parse(`Expected string, number, or identifier as argument, got ${token.type}`)
+            throw this.error(
+                "INVALID_ARGUMENT",
+                `Expected string, number, identifier or pipeline as argument, got ${token.type}`,
+            )
         }
     }
 
+    /**
+     * Parses a sub-pipeline argument such as `| textContent | includes('Sale')`.
+     */
+    private parsePipelineArgument(): PipeCommand {
+        this.advance() // consume leading '|'
+
+        const errorCount = this.parseErrors.length
+        const commands = this.parseAlternatives([TokenType.COMMA, TokenType.CLOSE_PAREN])
+        if (commands.length === 0 && !this.hasRecoveredSince(errorCount)) {
+            throw this.error("EMPTY_PIPELINE", `Expected at least one command in pipeline argument`)
+        }
+
+        return {
+            type: "pipe",
+            name: "pipe",
+            commands,
+        }
+    }
+
+    /**
+     * Records a parse error unless a lexical error was already reported inside the same segment,
+     * so an unterminated string does not also produce a "missing ')'" error.
+     */
+    private recordError(error: ParseError, commandStart: number): void {
+        // The segment starts after the previous token, so characters the tokenizer skipped belong to it
+        const previous = this.tokens[commandStart - 1]
+        const segmentStart = previous ? previous.position + previous.length : 0
+        const segmentEnd = error.span?.end ?? this.source.length
+        const overlaps = this.parseErrors.some(
+            (existing) => existing.span !== undefined && existing.span.start >= segmentStart && existing.span.start < segmentEnd,
+        )
+        if (!overlaps) {
+            this.parseErrors.push(error)
+        }
+    }
+
+    /**
+     * Records the source range of a command, from the token at `startToken` to the last token consumed.
+     */
+    private recordSpan(command: Command, startToken: number): void {
+        this.spans.set(command, this.spanSince(startToken))
+    }
+
+    /**
+     * Maps commands expanded from a macro, including nested ones, to the span and text of the macro call.
+     */
+    private recordExpansionSpans(commands: Command[], span: SourceSpan): void {
+        for (const command of commands) {
+            this.spans.set(command, span)
+            this.expansions.set(command, this.source.slice(span.start, span.end))
+            if (command.type === "function") {
+                for (const arg of command.args) {
+                    if (typeof arg !== "string" && arg.type === "pipe") this.recordExpansionSpans(arg.commands, span)
+                }
+            } else if (command.type === "object") {
+                command.fields.forEach((field) => this.recordExpansionSpans(field.commands, span))
+            } else if (command.type === "fallback") {
+                command.branches.forEach((branch) => this.recordExpansionSpans(branch, span))
+            }
+        }
+    }
+
+    // Source range from the token at `startToken` to the last token consumed
+    private spanSince(startToken: number): SourceSpan {
+        const last = this.previous()
+        return { start: this.tokens[startToken].position, end: last.position + last.length }
+    }
+
+    /**
+     * True when errors were recovered from after `errorCount` were recorded. A pipeline left empty
+     * by recovery is not reported again as empty.
+     */
+    private hasRecoveredSince(errorCount: number): boolean {
+        return this.parseErrors.length > errorCount
+    }
+
+    /**
+     * Skips the rest of a failed segment: from its first token up to the next pipe or `||` outside
+     * any group it opened, or up to one of the enclosing construct's terminators.
+     */
+    private synchronize(commandStart: number, terminators: TokenType[]): void {
+        const errorPosition = this.position
+        let depth = 0
+        this.position = commandStart
+
+        while (!this.isAtEnd()) {
+            const type = this.peek().type
+            const atBoundary = depth === 0 && this.position >= errorPosition
+
+            if (atBoundary && (type === TokenType.PIPE || type === TokenType.OR)) break
+            if (depth === 0 && terminators.includes(type) && type !== TokenType.OR) break
+
+            // Only parentheses and braces can hold nested pipelines; brackets are ignored because a
+            // malformed `[...]` may have had its closing bracket read as part of a CSS segment
+            if (type === TokenType.OPEN_PAREN || type === TokenType.OPEN_BRACE) {
+                depth++
+            } else if (type === TokenType.CLOSE_PAREN || type === TokenType.CLOSE_BRACE) {
+                depth = Math.max(0, depth - 1)
+            }
+            this.advance()
+        }
+
+        // Always make progress past a token that cannot start a command
+        if (this.position === commandStart && !this.isAtEnd() && !this.match(TokenType.PIPE)) {
+            this.advance()
+        }
+    }
+
+    private error(code: string, message: string, token: Token = this.peek()): ParseError {
+        const span = { start: token.position, end: token.position + Math.max(token.length, 1) }
+        return ErrorFactory.parse(message, undefined, span, code)
+    }
+
     private match(type: TokenType): boolean {
         return this.peek().type === type
     }
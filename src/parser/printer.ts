@@ -0,0 +1,240 @@
+import type {
+    Command,
+    CommandArgument,
+    FallbackCommand,
+    FunctionCommand,
+    ObjectCommand,
+    PropertyPathCommand,
+} from "../types"
+import { Tokenizer, TokenType } from "./tokenizer"
+import { ErrorFactory } from "../core/errors"
+
+// The group a pipeline is printed in: top level, an object projection field or a sub-pipeline argument
+type PrintGroup = "{" | "(" | null
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_][\w-]*$/
+const PATH_KEY_PATTERN = /^[A-Za-z_$][\w$]*$/
+const NUMBER_PATTERN = /^-?\d[\d.]*$/
+
+/**
+ * Prints a parsed `Command[]` back to a canonical selector string, so that
+ * `parser.parse(printer.print(commands)).commands` deep-equals `commands`.
+ *
+ * Output is normalized: single-quoted strings, bare numbers, `' | '` between commands and
+ * `' || '` between alternatives. CSS selectors and properties are printed bare where the tokenizer
+ * reads them back unchanged, and in their explicit `css('...')` / `@name` forms otherwise. Commands
+ * that have no selector form throw a validation error.
+ */
+export class Printer {
+    print(commands: Command[]): string {
+        return this.printPipeline(commands, null, true, true)
+    }
+
+    private printPipeline(commands: Command[], group: PrintGroup, atStart: boolean, allowFallback: boolean): string {
+        const fallback = commands.find((command): command is FallbackCommand => command.type === "fallback")
+        if (fallback) {
+            if (!allowFallback || commands.length > 1) {
+                throw ErrorFactory.validation(`A fallback must be the only command in its pipeline`, fallback)
+            }
+            return this.printFallback(fallback, group, atStart)
+        }
+
+        return commands.map((command, index) => this.printCommand(command, group, atStart && index === 0)).join(" | ")
+    }
+
+    private printFallback(command: FallbackCommand, group: PrintGroup, atStart: boolean): string {
+        if (command.branches.length < 2 || command.branches.some((branch) => branch.length === 0)) {
+            throw ErrorFactory.validation(`A fallback needs at least two non-empty branches`, command)
+        }
+
+        // A branch after `||` starts a new pipeline, except inside a sub-pipeline argument
+        return command.branches
+            .map((branch, index) => this.printPipeline(branch, group, index === 0 ? atStart : group !== "(", false))
+            .join(" || ")
+    }
+
+    private printCommand(command: Command, group: PrintGroup, atStart: boolean): string {
+        switch (command.type) {
+            case "css-selector":
+                return this.printCssSelector(command.selector, group, atStart)
+            case "xpath":
+                return this.readsAs(command.expression, TokenType.XPATH, group, atStart)
+                    ? command.expression
+                    : `xpath(${this.quote(command.expression)})`
+            case "property":
+                return this.printProperty(command.name, group, atStart)
+            case "property-path":
+                return this.printPropertyPath(command, group, atStart)
+            case "function":
+                return this.printFunction(command)
+            case "array-access":
+                return `[${this.printInteger(command.index, command)}]`
+            case "array-slice": {
+                const bounds = [command.start, command.end]
+                if (command.step !== null) {
+                    bounds.push(command.step)
+                }
+                return `[${bounds.map((bound) => (bound === null ? "" : this.printInteger(bound, command))).join(":")}]`
+            }
+            case "object":
+                return this.printObject(command)
+            default:
+                throw ErrorFactory.validation(`Cannot print command of type '${command.type}'`, command)
+        }
+    }
+
+    /**
+     * Prints a selector bare when the tokenizer reads it back as CSS at this position, and as
+     * an explicit `css('...')` segment otherwise, e.g. a bare word after a pipe.
+     */
+    private printCssSelector(selector: string, group: PrintGroup, atStart: boolean): string {
+        return this.readsAs(selector, TokenType.CSS_SELECTOR, group, atStart) ? selector : `css(${this.quote(selector)})`
+    }
+
+    /**
+     * Prints a property bare when it cannot be mistaken for a tag selector, and as `@name` otherwise.
+     */
+    private printProperty(name: string, group: PrintGroup, atStart: boolean): string {
+        if (this.readsAs(name, TokenType.PROPERTY, group, atStart)) {
+            return name
+        }
+        return /^[\w$-]+$/.test(name) ? `@${name}` : `@${this.quote(name)}`
+    }
+
+    private printFunction(command: FunctionCommand): string {
+        if (!IDENTIFIER_PATTERN.test(command.name)) {
+            throw ErrorFactory.validation(`Cannot print function name '${command.name}'`, command)
+        }
+
+        // Expression commands take their argument verbatim, see EXPRESSION_COMMANDS in the tokenizer
+        const [first] = command.args
+        const isExpression = (arg: CommandArgument) => typeof arg !== "string" && arg.type === "expression"
+        if (command.name === "where" || command.args.some(isExpression)) {
+            if (command.name !== "where" || command.args.length !== 1 || typeof first === "string" || first.type !== "expression") {
+                throw ErrorFactory.validation(`Only where() takes a single expression argument`, command)
+            }
+            return `where(${first.source})`
+        }
+
+        const args = command.args.map((arg) => {
+            if (typeof arg === "string") {
+                return NUMBER_PATTERN.test(arg) ? arg : this.quote(arg)
+            }
+            if (arg.type === "pipe") {
+                if (arg.commands.length === 0) {
+                    throw ErrorFactory.validation(`Cannot print an empty pipeline argument`, command)
+                }
+                return `| ${this.printPipeline(arg.commands, "(", false, true)}`
+            }
+            throw ErrorFactory.validation(`Cannot print argument of type '${arg.type}'`, command)
+        })
+
+        return `${command.name}(${args.join(", ")})`
+    }
+
+    private printObject(command: ObjectCommand): string {
+        if (command.fields.length === 0) {
+            throw ErrorFactory.validation(`Object projection must declare at least one field`, command)
+        }
+
+        const fields = command.fields.map((field) => {
+            if (field.commands.length === 0) {
+                throw ErrorFactory.validation(`Cannot print an empty pipeline for field '${field.key}'`, command)
+            }
+            const key = IDENTIFIER_PATTERN.test(field.key) ? field.key : this.quote(field.key)
+            return `${key}: ${this.printPipeline(field.commands, "{", true, true)}`
+        })
+
+        return `{ ${fields.join(", ")} }`
+    }
+
+    /**
+     * Prints `a.b?.c['d-e']`. A plain dotted path that would read as a `tag.class` selector has its
+     * second segment bracketed instead, which parses to the same segments.
+     */
+    private printPropertyPath(command: PropertyPathCommand, group: PrintGroup, atStart: boolean): string {
+        const [head, ...rest] = command.segments
+        if (!head || rest.length === 0 || head.optional || !PATH_KEY_PATTERN.test(head.key)) {
+            throw ErrorFactory.validation(`Cannot print property path '${this.describePath(command)}'`, command)
+        }
+
+        const render = (bracketFirst: boolean) =>
+            head.key +
+            rest
+                .map((segment, index) => {
+                    const prefix = segment.optional ? "?." : ""
+                    if (PATH_KEY_PATTERN.test(segment.key) && !(bracketFirst && index === 0)) {
+                        return `${prefix || "."}${segment.key}`
+                    }
+                    const key = /^\d+$/.test(segment.key) ? segment.key : this.quotePathKey(segment.key)
+                    return `${prefix}[${key}]`
+                })
+                .join("")
+
+        const plain = render(false)
+        if (this.readsAs(plain, TokenType.PROPERTY_PATH, group, atStart)) {
+            return plain
+        }
+        return this.expectToken(render(true), TokenType.PROPERTY_PATH, group, atStart, command)
+    }
+
+    private printInteger(value: number, command: Command): string {
+        if (!Number.isInteger(value)) {
+            throw ErrorFactory.validation(`Array index must be an integer, got ${value}`, command)
+        }
+        return String(value)
+    }
+
+    /**
+     * Returns `text` when the tokenizer reads it as a single token of `type` in the given position,
+     * and throws otherwise. Checking against the tokenizer keeps the CSS/property heuristics in one place.
+     */
+    private expectToken(
+        text: string,
+        type: TokenType,
+        group: PrintGroup,
+        atStart: boolean,
+        command: Command,
+    ): string {
+        if (!this.readsAs(text, type, group, atStart)) {
+            throw ErrorFactory.validation(`Cannot print '${text}' as a ${type} at this position`, command)
+        }
+        return text
+    }
+
+    private readsAs(text: string, type: TokenType, group: PrintGroup, atStart: boolean): boolean {
+        // A command follows too, so a token that would run on into the next segment (an unclosed quote) fails
+        const lead = atStart ? "" : "x | "
+        const [prefix, suffix] =
+            group === "{" ? [`{ k: ${lead}`, " | x }"] : group === "(" ? [`f(| ${lead}`, " | x)"] : [lead, " | x"]
+
+        try {
+            const tokens = new Tokenizer(prefix + text + suffix).tokenize()
+            const inside = tokens.filter(
+                (token) => token.position >= prefix.length && token.position < prefix.length + text.length,
+            )
+            return inside.length === 1 && inside[0].type === type && inside[0].value === text
+        } catch (error) {
+            return false
+        }
+    }
+
+    private quote(value: string): string {
+        const escaped = value
+            .replace(/\\/g, "\\\\")
+            .replace(/'/g, "\\'")
+            .replace(/\n/g, "\\n")
+            .replace(/\t/g, "\\t")
+            .replace(/\r/g, "\\r")
+        return `'${escaped}'`
+    }
+
+    // Bracket keys are unescaped with a plain `\x` -> `x` rule, so only backslashes and quotes are escaped
+    private quotePathKey(key: string): string {
+        return `'${key.replace(/[\\']/g, "\\$&")}'`
+    }
+
+    private describePath(command: PropertyPathCommand): string {
+        return command.segments.map((segment) => `${segment.optional ? "?." : "."}${segment.key}`).join("").slice(1)
+    }
+}
@@ -1,18 +1,28 @@
+import { ErrorFactory, type ParseError } from "../core/errors"
+
 /**
  * Tokenizer for SuperSelector syntax
  */
 export enum TokenType {
     CSS_SELECTOR = "CSS_SELECTOR",
     PIPE = "PIPE",
+    OR = "OR",
     FUNCTION_NAME = "FUNCTION_NAME",
     OPEN_PAREN = "OPEN_PAREN",
     CLOSE_PAREN = "CLOSE_PAREN",
     OPEN_BRACKET = "OPEN_BRACKET",
     CLOSE_BRACKET = "CLOSE_BRACKET",
+    OPEN_BRACE = "OPEN_BRACE",
+    CLOSE_BRACE = "CLOSE_BRACE",
     STRING = "STRING",
     NUMBER = "NUMBER",
     COMMA = "COMMA",
+    COLON = "COLON",
     PROPERTY = "PROPERTY",
+    PROPERTY_PATH = "PROPERTY_PATH",
+    XPATH = "XPATH",
+    EXPRESSION = "EXPRESSION",
+    DOT = "DOT",
     EOF = "EOF",
     WHITESPACE = "WHITESPACE",
 }
@@ -21,21 +31,57 @@ export interface Token {
     type: TokenType
     value: string
     position: number
-    length: number
+    length: number // Length of the token in the source, including quotes
+}
+
+export interface TokenizerOptions {
+    // Record lexical errors and keep going instead of throwing on the first one
+    recover?: boolean
+    // Read the input as the rest of a pipeline after a pipe, so a leading bare word is a property
+    continuation?: boolean
 }
 
+// Commands whose arguments are read verbatim as a predicate expression, e.g. `where(dataset.stock > 0)`
+const EXPRESSION_COMMANDS = new Set(["where"])
+
+// A property path such as `dataset.itemId`, `style?.display` or `attributes['data-x']`
+const PROPERTY_PATH_PATTERN =
+    /^[A-Za-z_$][\w$]*(?:\??\.[A-Za-z_$][\w$]*|(?:\?\.)?\[\s*(?:\d+|'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*")\s*\])+/
+
+// A `.name(` continuing a chain of calls such as `getAttribute('x').trim()`
+const CHAINED_CALL_PATTERN = /\.\s*[A-Za-z_][\w-]*\s*\(/y
+
+// Tag names that keep `tag.class` segments such as `li.active` reading as CSS selectors
+const HTML_TAGS = new Set(
+    (
+        "a abbr address article aside audio b blockquote body button canvas caption code col dd details dialog div dl dt " +
+        "em fieldset figcaption figure footer form h1 h2 h3 h4 h5 h6 head header hr html i iframe img input label legend " +
+        "li main nav ol optgroup option p picture pre section select small source span strong sub summary sup svg table " +
+        "tbody td template textarea tfoot th thead time title tr u ul video"
+    ).split(" "),
+)
+
 export class Tokenizer {
     private input: string
     private position = 0
     private tokens: Token[] = []
-
-    constructor(input: string) {
-        this.input = input.trim()
+    private groups: string[] = [] // Open '(' and '{' groups, innermost last
+    private recover: boolean
+    private continuation: boolean
+    private errors: ParseError[] = []
+
+    constructor(input: string, options: TokenizerOptions = {}) {
+        // Input is not trimmed so token positions match the caller's selector string
+        this.input = input
+        this.recover = options.recover ?? false
+        this.continuation = options.continuation ?? false
     }
 
     tokenize(): Token[] {
         this.tokens = []
         this.position = 0
+        this.groups = []
+        this.errors = []
 
         while (this.position < this.input.length) {
             this.skipWhitespace()
@@ -46,15 +92,22 @@ export class Tokenizer {
 
             switch (char) {
                 case "|":
-                    this.addToken(TokenType.PIPE, char)
-                    this.position++
+                    if (this.input[this.position + 1] === "|") {
+                        this.addToken(TokenType.OR, "||")
+                        this.position += 2
+                    } else {
+                        this.addToken(TokenType.PIPE, char)
+                        this.position++
+                    }
                     break
                 case "(":
                     this.addToken(TokenType.OPEN_PAREN, char)
+                    this.groups.push(char)
                     this.position++
                     break
                 case ")":
                     this.addToken(TokenType.CLOSE_PAREN, char)
+                    this.groups.pop()
                     this.position++
                     break
                 case "[":
@@ -65,16 +118,44 @@ export class Tokenizer {
                     this.addToken(TokenType.CLOSE_BRACKET, char)
                     this.position++
                     break
+                case "{":
+                    this.addToken(TokenType.OPEN_BRACE, char)
+                    this.groups.push(char)
+                    this.position++
+                    break
+                case "}":
+                    this.addToken(TokenType.CLOSE_BRACE, char)
+                    this.groups.pop()
+                    this.position++
+                    break
                 case ",":
                     this.addToken(TokenType.COMMA, char)
                     this.position++
                     break
+                case ":":
+                    this.addToken(TokenType.COLON, char)
+                    this.position++
+                    break
                 case '"':
                 case "'":
                     this.tokenizeString(char)
                     break
+                case "$":
+                    this.tokenizeExplicitCss()
+                    break
+                case "/":
+                    this.tokenizeXPath()
+                    break
+                case "@":
+                    this.tokenizeExplicitProperty()
+                    break
                 default:
-                    if (
+                    if (char === "." && this.isChainedCall()) {
+                        this.addToken(TokenType.DOT, char)
+                        this.position++
+                    } else if (this.input.startsWith("./", this.position) || this.input.startsWith("../", this.position)) {
+                        this.tokenizeXPath()
+                    } else if (
                         this.isDigit(char) ||
                         (char === "-" && this.position + 1 < this.input.length && this.isDigit(this.input[this.position + 1]))
                     ) {
@@ -82,7 +163,13 @@ export class Tokenizer {
                     } else if (this.isAlpha(char) || char === "_" || char === "-" || char === "." || char === "#") {
                         this.tokenizeIdentifier()
                     } else {
-                        throw new Error(`Unexpected character '${char}' at position ${this.position}`)
+                        this.fail(
+                            "UNEXPECTED_CHARACTER",
+                            `Unexpected character '${char}' at position ${this.position}`,
+                            this.position,
+                            this.position + 1,
+                        )
+                        this.position++ // Only reached when recovering: skip the character
                     }
             }
         }
@@ -91,14 +178,24 @@ export class Tokenizer {
         return this.tokens
     }
 
+    /**
+     * Lexical errors recorded by the last `tokenize()` call in recovery mode.
+     */
+    getErrors(): ParseError[] {
+        return [...this.errors]
+    }
+
     private skipWhitespace(): void {
         while (this.position < this.input.length && this.isWhitespace(this.input[this.position])) {
             this.position++
         }
     }
 
-    private tokenizeString(quote: string): void {
-        const start = this.position
+    /**
+     * Reads a quoted string starting at the current position and adds it as a token of `type`.
+     * `start` is where the token begins in the source, before any prefix such as `$` or `@`.
+     */
+    private tokenizeString(quote: string, type = TokenType.STRING, start = this.position): void {
         this.position++ // Skip opening quote
 
         let value = ""
@@ -137,11 +234,70 @@ export class Tokenizer {
         }
 
         if (this.position >= this.input.length) {
-            throw new Error(`Unterminated string starting at position ${start}`)
+            this.fail("UNTERMINATED_STRING", `Unterminated string starting at position ${start}`, start, this.position)
+            // When recovering, the rest of the input becomes the string
+            this.addToken(type, value, start, this.position)
+            return
         }
 
         this.position++ // Skip closing quote
-        this.addToken(TokenType.STRING, value, start)
+        this.addToken(type, value, start, this.position)
+    }
+
+    /**
+     * Reads an explicit CSS segment such as `$"a[title='x|y']"`, which bypasses the CSS/property heuristic.
+     */
+    private tokenizeExplicitCss(): void {
+        const start = this.position
+        const quote = this.input[this.position + 1]
+
+        if (quote !== '"' && quote !== "'") {
+            this.fail("UNEXPECTED_CHARACTER", `Expected a quoted selector after '$' at position ${start}`, start, start + 1)
+            this.position++ // Only reached when recovering: skip the '$'
+            return
+        }
+
+        this.position++ // Skip '$'
+        this.tokenizeString(quote, TokenType.CSS_SELECTOR, start)
+    }
+
+    /**
+     * Reads a segment starting with `/`, `./` or `../` as an XPath expression, e.g. `//td[text()='Total']`.
+     * Like CSS segments it runs to the next pipe outside quotes and brackets, so XPath unions need `xpath('a | b')`.
+     */
+    private tokenizeXPath(): void {
+        const start = this.position
+        const segmentEnd = this.findSegmentEnd(start)
+        this.addToken(TokenType.XPATH, this.input.slice(start, segmentEnd).trim(), start)
+        this.position = segmentEnd
+    }
+
+    /**
+     * Reads an explicit property segment such as `@textContent` or `@"data-x"`, which is never read
+     * as a tag selector, even at the start of a pipeline.
+     */
+    private tokenizeExplicitProperty(): void {
+        const start = this.position
+        this.position++ // Skip '@'
+
+        const char = this.input[this.position]
+        if (char === '"' || char === "'") {
+            this.tokenizeString(char, TokenType.PROPERTY, start)
+            return
+        }
+
+        let name = ""
+        while (this.position < this.input.length && /[\w$-]/.test(this.input[this.position])) {
+            name += this.input[this.position]
+            this.position++
+        }
+
+        if (!name) {
+            this.fail("UNEXPECTED_CHARACTER", `Expected a property name after '@' at position ${start}`, start, start + 1)
+            return
+        }
+
+        this.addToken(TokenType.PROPERTY, name, start, this.position)
     }
 
     private tokenizeNumber(): void {
@@ -162,7 +318,7 @@ export class Tokenizer {
             this.position++
         }
 
-        this.addToken(TokenType.NUMBER, value, start)
+        this.addToken(TokenType.NUMBER, value, start, this.position)
     }
 
     private tokenizeIdentifier(): void {
@@ -188,23 +344,28 @@ export class Tokenizer {
             peekPos++
         }
 
-        if (peekPos < this.input.length && this.input[peekPos] === "(") {
+        if (peekPos < this.input.length && this.input[peekPos] === "(" && EXPRESSION_COMMANDS.has(value)) {
+            this.addToken(TokenType.FUNCTION_NAME, value, start)
+            this.tokenizeExpressionArgument(peekPos)
+        } else if (peekPos < this.input.length && this.input[peekPos] === "(") {
             this.addToken(TokenType.FUNCTION_NAME, value, start)
             // The main loop will then tokenize '(', args, ')'
+        } else if (peekPos < this.input.length && this.input[peekPos] === ":" && this.isAtFieldKey()) {
+            // A field name inside an object projection, e.g. `{ title: h1 | textContent }`
+            this.addToken(TokenType.PROPERTY, value, start)
+        } else if (this.matchPropertyPath(start) !== null) {
+            const pathEnd = this.matchPropertyPath(start)!
+            this.addToken(TokenType.PROPERTY_PATH, this.input.slice(start, pathEnd), start)
+            this.position = pathEnd
         } else {
             // Not a function name. It's either a CSS selector or a property.
             // Call looksLikeCssSelector with the original start position of this identifier.
             if (this.looksLikeCssSelector(start)) {
-                // It's a CSS selector. Consume the entire segment from 'start' to the pipe or EOL.
-                let cssSegmentValue = ""
-                let currentPos = start
-                while (currentPos < this.input.length && this.input[currentPos] !== "|") {
-                    cssSegmentValue += this.input[currentPos]
-                    currentPos++
-                }
-                cssSegmentValue = cssSegmentValue.trim()
+                // It's a CSS selector. Consume the entire segment from 'start' to the end of the segment.
+                const segmentEnd = this.findSegmentEnd(start)
+                const cssSegmentValue = this.input.slice(start, segmentEnd).trim()
                 this.addToken(TokenType.CSS_SELECTOR, cssSegmentValue, start)
-                this.position = currentPos // Update position to after the consumed CSS segment
+                this.position = segmentEnd // Update position to after the consumed CSS segment
             } else {
                 // It's a property. The 'value' we read is the property name.
                 // 'this.position' is already advanced past 'value'.
@@ -213,15 +374,77 @@ export class Tokenizer {
         }
     }
 
-    private looksLikeCssSelector(scanStartPos: number): boolean {
-        let pos = scanStartPos
-        let segment = ""
-        // Read the segment from scanStartPos until a pipe or end of input
-        while (pos < this.input.length && this.input[pos] !== "|") {
-            segment += this.input[pos]
+    /**
+     * Reads everything between the parenthesis at `openPos` and its matching `)` as one expression token.
+     * Quotes and nested parentheses are respected so `where(text ~= '(a|b)')` stays intact.
+     */
+    private tokenizeExpressionArgument(openPos: number): void {
+        this.addToken(TokenType.OPEN_PAREN, "(", openPos)
+
+        let pos = openPos + 1
+        let depth = 0
+        let quote: string | null = null
+
+        while (pos < this.input.length) {
+            const char = this.input[pos]
+            if (quote) {
+                if (char === "\\") {
+                    pos++
+                } else if (char === quote) {
+                    quote = null
+                }
+            } else if (char === '"' || char === "'") {
+                quote = char
+            } else if (char === "(") {
+                depth++
+            } else if (char === ")") {
+                if (depth === 0) break
+                depth--
+            }
             pos++
         }
-        segment = segment.trim()
+
+        const expression = this.input.slice(openPos + 1, pos)
+        this.addToken(TokenType.EXPRESSION, expression.trim(), openPos + 1, pos)
+
+        if (pos >= this.input.length) {
+            this.fail("UNTERMINATED_EXPRESSION", `Unterminated expression starting at position ${openPos}`, openPos, pos)
+            this.position = pos
+            return
+        }
+
+        this.addToken(TokenType.CLOSE_PAREN, ")", pos)
+        this.position = pos + 1
+    }
+
+    /**
+     * Returns the end of a property path spanning the whole segment at `scanStartPos`, or null.
+     * Plain dotted paths only count after the first segment and when they cannot be a `tag.class`
+     * selector; `?.` and quoted or numeric bracket keys are never valid CSS, so they always count.
+     */
+    private matchPropertyPath(scanStartPos: number): number | null {
+        const segmentEnd = this.findSegmentEnd(scanStartPos)
+        const segment = this.input.slice(scanStartPos, segmentEnd)
+        const match = PROPERTY_PATH_PATTERN.exec(segment)
+
+        if (!match || segment.slice(match[0].length).trim() !== "") {
+            return null
+        }
+
+        const path = match[0]
+        if (!path.includes("?.") && !path.includes("[")) {
+            const head = path.slice(0, path.indexOf("."))
+            if (this.isAtPipelineStart() || HTML_TAGS.has(head.toLowerCase())) {
+                return null
+            }
+        }
+
+        return scanStartPos + path.length
+    }
+
+    private looksLikeCssSelector(scanStartPos: number): boolean {
+        // Read the segment from scanStartPos until the end of the segment
+        const segment = this.input.slice(scanStartPos, this.findSegmentEnd(scanStartPos)).trim()
 
         if (!segment) {
             return false
@@ -234,8 +457,8 @@ export class Tokenizer {
 
         // Rule 2: It's a simple word (e.g., "div", "textContent").
         if (/^[a-zA-Z_][\w-]*$/.test(segment)) {
-            // If it's the first token in the string, treat it as a CSS tag selector.
-            if (this.tokens.length === 0) {
+            // If it starts a pipeline (the selector or an object field value), treat it as a CSS tag selector.
+            if (this.isAtPipelineStart()) {
                 return true
             }
             // Otherwise, it's a property.
@@ -246,15 +469,97 @@ export class Tokenizer {
         return false
     }
 
-    private addToken(type: TokenType, value: string, start?: number): void {
+    /**
+     * Finds where the segment starting at `scanStartPos` ends: at the next pipe or, inside an object
+     * projection or a sub-pipeline argument, at the `,`, `)` or `}` that closes the enclosing group.
+     * Pipes and separators inside quotes, brackets or parentheses belong to the segment, so
+     * `a[title="x|y"]` stays whole.
+     */
+    private findSegmentEnd(scanStartPos: number): number {
+        let pos = scanStartPos
+        let nesting = 0
+
+        while (pos < this.input.length) {
+            const char = this.input[pos]
+            if (char === '"' || char === "'") {
+                pos = this.skipQuoted(pos)
+                continue
+            }
+            if (char === "|" && nesting === 0) break
+            if (char === "(" || char === "[") {
+                nesting++
+            } else if (nesting > 0 && (char === ")" || char === "]")) {
+                nesting--
+            } else if (this.groups.length > 0 && nesting === 0 && (char === "," || char === ")" || char === "}")) {
+                break
+            }
+            pos++
+        }
+
+        return pos
+    }
+
+    /**
+     * Returns the position just past the string quoted at `pos`, or the end of input if it is unterminated.
+     */
+    private skipQuoted(pos: number): number {
+        const quote = this.input[pos]
+        pos++
+        while (pos < this.input.length && this.input[pos] !== quote) {
+            pos += this.input[pos] === "\\" ? 2 : 1
+        }
+        return Math.min(pos + 1, this.input.length)
+    }
+
+    private isAtPipelineStart(): boolean {
+        if (this.tokens.length === 0) return !this.continuation
+        const previous = this.tokens[this.tokens.length - 1].type
+        if (previous === TokenType.OR) {
+            // Alternatives read like the branch before them: sub-pipeline arguments continue a pipe
+            return this.groups.length === 0 ? !this.continuation : this.groups[this.groups.length - 1] !== "("
+        }
+        return this.isInObject() && previous === TokenType.COLON
+    }
+
+    /**
+     * True for the `.` in `getAttribute('x').trim()`: right after a call's `)` and followed by another call.
+     */
+    private isChainedCall(): boolean {
+        const previous = this.tokens[this.tokens.length - 1]
+        if (previous?.type !== TokenType.CLOSE_PAREN) return false
+        CHAINED_CALL_PATTERN.lastIndex = this.position
+        return CHAINED_CALL_PATTERN.test(this.input)
+    }
+
+    private isAtFieldKey(): boolean {
+        if (!this.isInObject() || this.tokens.length === 0) return false
+        const previous = this.tokens[this.tokens.length - 1].type
+        return previous === TokenType.OPEN_BRACE || previous === TokenType.COMMA
+    }
+
+    private isInObject(): boolean {
+        return this.groups[this.groups.length - 1] === "{"
+    }
+
+    private addToken(type: TokenType, value: string, start?: number, end?: number): void {
+        // Tokens added without a start are added before the tokenizer advances past them
+        const position = start ?? this.position
         this.tokens.push({
             type,
             value,
-            position: start ?? this.position - value.length,
-            length: value.length,
+            position,
+            length: end !== undefined ? end - position : value.length,
         })
     }
 
+    private fail(code: string, message: string, start: number, end: number): void {
+        const error = ErrorFactory.parse(message, undefined, { start, end: Math.max(end, start + 1) }, code)
+        if (!this.recover) {
+            throw error
+        }
+        this.errors.push(error)
+    }
+
     private isWhitespace(char: string): boolean {
         return /\s/.test(char)
     }
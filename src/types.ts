@@ -1,3 +1,5 @@
+import type { Expression } from "./parser/expression"
+
 /**
  * Represents a command that is a simple CSS selector string.
  */
@@ -6,6 +8,14 @@ export interface CssSelectorCommand extends BaseCommand {
     selector: string
 }
 
+/**
+ * Represents a command that evaluates an XPath expression against the current node(s).
+ */
+export interface XPathCommand extends BaseCommand {
+    type: "xpath"
+    expression: string
+}
+
 /**
  * Represents a parsed function call command.
  */
@@ -68,7 +78,17 @@ export interface BaseCommand {
 export interface FunctionCommand extends BaseCommand {
     type: "function"
     name: string
-    args: string[]
+    args: CommandArgument[]
+}
+
+// A function argument is a literal, a sub-pipeline run against each item, e.g. `map(| href)`,
+// or a predicate expression, e.g. `where(dataset.stock > 0)`
+export type CommandArgument = string | PipeCommand | ExpressionArgument
+
+export interface ExpressionArgument {
+    type: "expression"
+    source: string
+    expression: Expression
 }
 
 export interface PropertyCommand extends BaseCommand {
@@ -76,17 +96,59 @@ export interface PropertyCommand extends BaseCommand {
     name: string
 }
 
+export interface PropertyPathSegment {
+    key: string
+    optional: boolean // Reached through `?.`: a missing value ends the path with null instead of an error
+}
+
+export interface PropertyPathCommand extends BaseCommand {
+    type: "property-path"
+    segments: PropertyPathSegment[]
+}
+
 export interface ArrayAccessCommand extends BaseCommand {
     type: "array-access"
     index: number
 }
 
+export interface ArraySliceCommand extends BaseCommand {
+    type: "array-slice"
+    start: number | null
+    end: number | null
+    step: number | null
+}
+
+export interface ObjectField {
+    key: string
+    commands: Command[]
+}
+
+export interface ObjectCommand extends BaseCommand {
+    type: "object"
+    fields: ObjectField[]
+}
+
+export interface FallbackCommand extends BaseCommand {
+    type: "fallback"
+    branches: Command[][]
+}
+
 export interface PipeCommand extends BaseCommand {
     type: "pipe"
     commands: Command[]
 }
 
-export type Command = CssSelectorCommand | FunctionCommand | PropertyCommand | ArrayAccessCommand | PipeCommand
+export type Command =
+    | CssSelectorCommand
+    | XPathCommand
+    | FunctionCommand
+    | PropertyCommand
+    | PropertyPathCommand
+    | ArrayAccessCommand
+    | ArraySliceCommand
+    | ObjectCommand
+    | FallbackCommand
+    | PipeCommand
 
 // Execution context
 export interface ExecutionContext {
@@ -96,6 +158,9 @@ export interface ExecutionContext {
     metadata: Record<string, any>
     hadSoftError?: boolean | undefined // Explicitly allow undefined
     softError?: SuperSelectorError | undefined // Explicitly allow undefined
+    signal?: AbortSignal | undefined // Aborted when the execution times out or the caller cancels it
+    variables?: Readonly<Record<string, SelectorValue>> | undefined // From `ExecuteOptions.variables`
+    warnings?: ExecutionWarning[] | undefined // Soft errors raised so far, merged into the parent's when a sub-pipeline ends
 }
 
 // Plugin system
@@ -109,11 +174,20 @@ export interface Plugin {
 }
 
 export interface CommandHandler {
-    execute(context: ExecutionContext, ...args: any[]): SelectorValue
+    execute(context: ExecutionContext, ...args: any[]): MaybePromise<SelectorValue>
     validate?(args: any[]): boolean
     description?: string
+    async?: boolean | undefined // Always completes asynchronously; synchronous runs refuse it without calling it
 }
 
+// A value returned either directly or as a promise, e.g. by an async command handler
+export type MaybePromise<T> = T | Promise<T>
+
+// A sub-pipeline argument as seen by command handlers: runs the pipeline against a single value.
+// It returns a promise when the sub-pipeline contains async commands. Handlers running it per item pass
+// the item's index, which tags the warnings it raises.
+export type SubPipeline = (value: SelectorValue, itemIndex?: number) => MaybePromise<SelectorValue>
+
 export type HookHandler = (context: ExecutionContext, data?: any) => void | Promise<void>
 
 // Configuration
@@ -127,6 +201,8 @@ export interface SuperSelectorConfig {
     defaultValue: any
     plugins: string[]
     customCommands: Record<string, CommandHandler>
+    awaitHooks: boolean // Wait for promises returned by `execution:*` hooks before continuing
+    strict: boolean | string[] // Warning codes to fail the execution with instead of going on; `true` for all
 }
 
 // Results and errors
@@ -138,7 +214,94 @@ export interface ExecutionResult<T = SelectorValue> {
         executionTime: number
         commandsExecuted: number
         cacheHit: boolean
+        matchedBranch?: number | undefined // Branch chosen by a top-level `||` fallback
+        sharedCommands?: number | undefined // Leading commands run once for several selectors by `executeMany`
     }
+    trace?: TraceStep[] | undefined // One entry per top-level command, when run with `trace: true`
+    errors: ExecutionWarning[] // Every soft error in the order raised; `error` is the first of them
+}
+
+// Codes of the soft errors raised by built-in commands. Custom commands may use their own.
+export type WarningCode =
+    | "NULL_VALUE" // A property, method or object projection applied to null or undefined
+    | "PROPERTY_NOT_FOUND"
+    | "INDEX_OUT_OF_BOUNDS"
+    | "NOT_AN_ARRAY" // An array access or slice applied to something else
+    | "INVALID_ARGUMENT" // E.g. a zero slice step or an invalid regular expression
+    | "UNKNOWN_METHOD"
+    | "UNKNOWN_VARIABLE"
+    | "UNDEFINED_RESULT" // A command other than the last returned undefined
+
+// A soft error: the execution went on with a fallback value
+export interface ExecutionWarning {
+    code: WarningCode | (string & {})
+    message: string
+    error: SuperSelectorError
+    command?: Command | undefined // The innermost command that raised it
+    index?: number | undefined // Index of the top-level command it was raised under
+    span?: SourceSpan | undefined // Source span of `command`, or of the top-level command if unknown
+    itemIndex?: number | undefined // The failing item, for array operations and per-item sub-pipelines
+}
+
+// A short, log-friendly description of a value seen by a traced command
+export interface ValueSummary {
+    type: string // "null", "undefined", "string", "number", "boolean", "element", "document", "array", "object", ...
+    count?: number | undefined // Number of items, for arrays
+    elements?: string[] | undefined // Descriptors such as `li#first.item` of the first elements
+    preview: string
+}
+
+export interface TraceStep {
+    index: number
+    command: Command
+    source: string // The command as written in the selector
+    span?: SourceSpan | undefined
+    input: ValueSummary
+    output?: ValueSummary | undefined // Missing when the command threw
+    duration: number // Milliseconds, including awaited async work
+    softError?: SuperSelectorError | undefined // First soft error raised by this command
+    warnings?: ExecutionWarning[] | undefined // Every soft error raised by this command
+    error?: SuperSelectorError | undefined // Error that ended the execution at this command
+}
+
+// Where a debugger holds an execution: before the top-level command at `index` runs
+export interface DebuggerPause {
+    index: number
+    command: Command
+    source: string // The command as written in the selector
+    span?: SourceSpan | undefined
+    reason: "breakpoint" | "step"
+    context: ExecutionContext // `currentValue` is the value the command is about to receive
+}
+
+// Instance settings a single execution can override without `configure()`-ing the shared instance
+export type ExecutionOverrides = {
+    [K in
+        | "timeout"
+        | "maxDepth"
+        | "cacheEnabled"
+        | "cacheTTL"
+        | "errorHandling"
+        | "defaultValue"
+        | "awaitHooks"
+        | "strict"]?:
+        | SuperSelectorConfig[K]
+        | undefined // Left undefined, the instance value applies
+}
+
+// Options for a single execution, merged over the instance config for that call only
+export interface ExecuteOptions extends ExecutionOverrides {
+    signal?: AbortSignal | undefined // Cancels the execution with an ABORT_ERROR
+    trace?: boolean | undefined // Record `result.trace`; traced executions bypass the cache
+    variables?: Record<string, SelectorValue> | undefined // Read with `var('name')`; executions with variables bypass the cache
+}
+
+// A selector parsed once by `SuperSelector.compile` and run against any number of roots
+export interface CompiledSelector {
+    readonly source: string
+    readonly commands: readonly Command[]
+    run(element?: Element | Document, options?: ExecuteOptions): Promise<ExecutionResult>
+    runSync(element?: Element | Document, options?: ExecuteOptions): ExecutionResult
 }
 
 export interface SuperSelectorError extends Error {
@@ -152,14 +315,102 @@ export interface ParseResult {
     commands: Command[]
     isValid: boolean
     errors: string[]
+    diagnostics: ParseDiagnostic[]
+    spans: WeakMap<Command, SourceSpan> // Where each parsed command, including nested ones, came from
+    expansions: WeakMap<Command, string> // The macro call, as written, that each expanded command came from
+}
+
+// A named selector fragment that the parser expands inline at `@name` or `name(...)`
+export interface Macro {
+    name: string
+    body: string // Selector source; `$1`, `$2`, ... are replaced by the call's arguments as written
+    arity: number // Number of arguments a call must pass, the highest `$n` slot in the body
+}
+
+// Half-open character range [start, end) in the selector source
+export interface SourceSpan {
+    start: number
+    end: number
+}
+
+export interface ParseDiagnostic extends SourceSpan {
+    code: string // e.g. UNEXPECTED_TOKEN, EXPECTED_TOKEN, UNTERMINATED_STRING
+    message: string
+    snippet: string // The selector line with a caret underline below the span
 }
 
+// Linter types
+export type LintSeverity = "error" | "warning"
+
+export interface LintDiagnostic extends ParseDiagnostic {
+    severity: LintSeverity
+    suggestions: string[] // "Did you mean" candidates, closest first
+}
+
+export interface LintResult {
+    isValid: boolean // False when any diagnostic is an error
+    diagnostics: LintDiagnostic[]
+}
+
+// Migration types
+export interface MigrationDifference extends SourceSpan {
+    code: string // e.g. MAPPED_CALL, NULL_ITEMS, DOTTED_SEGMENT
+    message: string
+}
+
+export interface MigrationResult {
+    selector: string // Equivalent V2 selector
+    commands: Command[]
+    differences: MigrationDifference[] // Spans point into the legacy selector
+}
+
+// Completion types
+export type CompletionKind = "command" | "method" | "property" | "tag" | "class" | "id"
+
+// What the cursor is on: the start of a pipeline, a segment after a pipe, a property name, or neither
+export type CompletionPosition = "selector" | "command" | "property" | "none"
+
+export interface CompletionItem {
+    label: string
+    kind: CompletionKind
+    detail?: string // e.g. the command description
+    replace: SourceSpan // Range of the selector the label replaces
+}
+
+export interface CompletionContext {
+    selector: string
+    cursor: number
+    position: CompletionPosition
+    prefix: string // The partial word before the cursor that completions must start with
+    replace: SourceSpan
+    value: SelectorValue | undefined // Result of the pipeline before the cursor, when it could be evaluated
+    root: Element | Document | undefined
+}
+
+export type CompletionProvider = (context: CompletionContext) => CompletionItem[]
+
+// Watch types
+// When two results of a watched selector count as the same: "deep" compares arrays and plain objects
+// by content, "identity" compares items with Object.is; both compare DOM nodes by identity
+export type WatchEquality = "deep" | "identity" | ((previous: SelectorValue, next: SelectorValue) => boolean)
+
+export interface WatchOptions {
+    debounce?: number | undefined // ms without mutations before re-running, defaults to 50
+    equality?: WatchEquality | undefined // Defaults to "deep"
+    immediate?: boolean | undefined // Also call back with the first result
+}
+
+export type WatchCallback = (value: SelectorValue, result: ExecutionResult) => void
+
+export type Unsubscribe = () => void
+
 // Cache types
 export interface CacheEntry<T = SelectorValue> {
     value: T
     timestamp: number
     ttl: number
     hits: number
+    matchedBranch?: number | undefined // Top-level `||` alternative the value came from
 }
 
 // Event types
@@ -169,7 +420,7 @@ export interface SuperSelectorEvent {
     timestamp: number
 }
 
-export type EventListener = (event: SuperSelectorEvent) => void
+export type EventListener = (event: SuperSelectorEvent) => void | Promise<void>
 
 // Legacy types for backward compatibility
 export interface LegacyParsedFunctionCommand {
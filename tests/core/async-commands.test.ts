@@ -0,0 +1,184 @@
+/**
+ * @jest-environment jsdom
+ */
+import { SuperSelector } from "../../src/core/super-selector"
+import type { CommandHandler, ExecutionContext, Plugin, SuperSelectorConfig } from "../../src/types"
+
+const delay = <T>(value: T, ms = 5): Promise<T> => new Promise((resolve) => setTimeout(() => resolve(value), ms))
+
+const asyncCommands: Record<string, CommandHandler> = {
+    later: {
+        execute: (context: ExecutionContext) => delay(context.currentValue),
+        description: "Resolve to the current value after a short delay",
+    },
+    broken: {
+        execute: async () => {
+            await delay(null)
+            throw new Error("boom")
+        },
+    },
+    never: {
+        execute: () => new Promise(() => {}),
+    },
+    fetchLater: {
+        execute: jest.fn(async (context: ExecutionContext) => context.currentValue),
+        async: true,
+    },
+}
+
+describe("Async commands", () => {
+    let superSelector: SuperSelector
+
+    const create = (config: Partial<SuperSelectorConfig> = {}) => {
+        superSelector?.destroy()
+        superSelector = new SuperSelector({ cacheEnabled: false, customCommands: asyncCommands, ...config })
+    }
+
+    beforeEach(() => {
+        document.body.innerHTML = `
+            <ul id="list">
+                <li data-price="10">One</li>
+                <li data-price="20">Two</li>
+            </ul>
+        `
+        create()
+    })
+
+    afterEach(() => {
+        superSelector.destroy()
+        jest.restoreAllMocks()
+    })
+
+    it("should await async handlers before running the next command", async () => {
+        const result = await superSelector.execute("#list li | later() | [1] | textContent")
+        expect(result).toMatchObject({ success: true, value: "Two" })
+    })
+
+    it("should await async commands inside sub-pipelines, objects and fallbacks", async () => {
+        const valueOf = async (selector: string) => (await superSelector.execute(selector)).value
+
+        expect(await valueOf("#list li | map(| later() | dataset.price)")).toEqual(["10", "20"])
+        expect(await valueOf("#list li | filter(| later() | textContent | includes('T'))")).toEqual([
+            document.querySelectorAll("li")[1],
+        ])
+        expect(await valueOf("#list li | sortBy(| later() | textContent, 'desc') | [0] | textContent")).toBe("Two")
+        expect(await valueOf("#list li | [0] | { text: later() | textContent }")).toEqual({ text: "One" })
+        expect(await valueOf("#list | broken() || #list | later() | id")).toBe("list")
+    })
+
+    it("should report rejections with the failing command", async () => {
+        const result = await superSelector.execute("#list li | map(| later() | broken())")
+        expect(result.success).toBe(false)
+        expect(result.error?.message).toContain("Error executing command 'broken': boom")
+        expect(result.error?.command).toMatchObject({ type: "function", name: "broken" })
+    })
+
+    it("should time out while an async command is pending", async () => {
+        create({ timeout: 20 })
+        const result = await superSelector.execute("#list | never()")
+        expect(result.error).toMatchObject({ code: "TIMEOUT_ERROR" })
+    })
+
+    it("should fail runSync on an async command instead of awaiting it", () => {
+        const result = superSelector.compile("#list | later() | id").runSync(document)
+        expect(result.success).toBe(false)
+        expect(result.error).toMatchObject({ code: "ASYNC_COMMAND_ERROR" })
+        expect(result.error?.message).toContain("Command 'later' is asynchronous")
+        expect(superSelector.compile("#list | id").runSync(document).value).toBe("list")
+    })
+
+    describe("executeSync", () => {
+        it("should return the same results as execute", async () => {
+            const selectors = ["#list li | [1] | textContent", "#list li | [5] | textContent", "#list | [x]"]
+            for (const selector of selectors) {
+                const { metadata, ...result } = superSelector.executeSync(selector)
+                const { metadata: expected, ...asyncResult } = await superSelector.execute(selector)
+                expect(result).toEqual(asyncResult)
+                expect(metadata.commandsExecuted).toBe(expected.commandsExecuted)
+            }
+        })
+
+        it("should use the cache and emit events", () => {
+            create({ cacheEnabled: true })
+            const complete = jest.fn()
+            superSelector.on("execution:complete", complete)
+
+            superSelector.executeSync("#list li | [0] | textContent")
+            const cached = superSelector.executeSync("#list li | [0] | textContent")
+            expect(cached).toMatchObject({ value: "One", metadata: { cacheHit: true } })
+            expect(complete).toHaveBeenCalledTimes(1)
+        })
+
+        it("should throw on async commands, including inside sub-pipelines", () => {
+            const asyncCommand = expect.objectContaining({
+                code: "ASYNC_COMMAND_ERROR",
+                message: expect.stringContaining("Command 'later' is asynchronous"),
+            })
+            expect(() => superSelector.executeSync("#list | later() | id")).toThrow(asyncCommand)
+            expect(() => superSelector.executeSync("#list li | map(| later() | textContent)")).toThrow(asyncCommand)
+            expect(() => superSelector.executeSync("#list | later() || #list | id")).toThrow(asyncCommand)
+        })
+
+        it("should refuse commands registered as async without calling them", () => {
+            expect(() => superSelector.executeSync("#list | fetchLater()")).toThrow(
+                expect.objectContaining({ code: "ASYNC_COMMAND_ERROR" }),
+            )
+            expect(asyncCommands.fetchLater.execute).not.toHaveBeenCalled()
+        })
+
+        it("should abort the signal of a command that returned a promise", () => {
+            let signal: AbortSignal | undefined
+            create({
+                customCommands: {
+                    hold: { execute: (context: ExecutionContext) => ((signal = context.signal), new Promise(() => {})) },
+                },
+            })
+
+            expect(() => superSelector.executeSync("#list | hold()")).toThrow(
+                expect.objectContaining({ code: "ASYNC_COMMAND_ERROR" }),
+            )
+            expect(signal?.aborted).toBe(true)
+            expect(signal?.reason).toMatchObject({ code: "ASYNC_COMMAND_ERROR" })
+        })
+    })
+
+    describe("Awaiting hooks", () => {
+        const domPlugin: Plugin = {
+            name: "late-dom",
+            version: "1.0.0",
+            hooks: {
+                "execution:start": async () => {
+                    await delay(null)
+                    document.getElementById("list")!.insertAdjacentHTML("beforeend", `<li data-price="30">Three</li>`)
+                },
+            },
+        }
+
+        it("should wait for execution hooks when awaitHooks is enabled", async () => {
+            create({ awaitHooks: true })
+            superSelector.loadPlugin(domPlugin)
+
+            expect((await superSelector.execute("#list li | map(| textContent)")).value).toEqual(["One", "Two", "Three"])
+        })
+
+        it("should not wait for hooks by default", async () => {
+            superSelector.loadPlugin(domPlugin)
+
+            expect((await superSelector.execute("#list li | map(| textContent)")).value).toEqual(["One", "Two"])
+        })
+
+        it("should log rejected hooks and keep executing", async () => {
+            const errorSpy = jest.spyOn(console, "error").mockImplementation(() => {})
+            create({ awaitHooks: true })
+            superSelector.loadPlugin({
+                name: "failing-hook",
+                version: "1.0.0",
+                hooks: { "execution:complete": () => Promise.reject(new Error("hook failed")) },
+            })
+
+            const result = await superSelector.execute("#list | id")
+            expect(result).toMatchObject({ success: true, value: "list" })
+            expect(errorSpy).toHaveBeenCalledWith("Error in event listener for execution:complete:", expect.any(Error))
+        })
+    })
+})
@@ -0,0 +1,126 @@
+/**
+ * @jest-environment jsdom
+ */
+import { SuperSelector } from "../../src/core/super-selector"
+
+describe("Batch execution", () => {
+    let superSelector: SuperSelector
+    let calls: number
+
+    beforeEach(() => {
+        document.body.innerHTML = `
+            <div id="product">
+                <div class="details">
+                    <h2>Lamp</h2>
+                    <span class="price">25</span>
+                </div>
+            </div>
+        `
+        calls = 0
+        superSelector = new SuperSelector({
+            customCommands: {
+                count: { execute: (context: any) => (calls++, context.currentValue) },
+                later: { execute: async (context: any) => (calls++, context.currentValue) },
+                nothing: { execute: () => undefined },
+            },
+        })
+        jest.spyOn(console, "error").mockImplementation(() => {})
+    })
+
+    afterEach(() => {
+        superSelector.destroy()
+        jest.restoreAllMocks()
+    })
+
+    it("should run a shared prefix once and key the results", async () => {
+        const results = await superSelector.executeMany({
+            title: "#product | count() | .details h2 | textContent",
+            price: "#product | count() | .details .price | textContent",
+            root: "#product | count()",
+        })
+
+        expect(calls).toBe(1)
+        expect(Object.keys(results)).toEqual(["title", "price", "root"])
+        expect(results.title.value).toBe("Lamp")
+        expect(results.price).toMatchObject({ value: "25", metadata: { sharedCommands: 2, commandsExecuted: 4 } })
+        expect(results.root.value).toBe(document.getElementById("product"))
+    })
+
+    it("should share async prefixes too", async () => {
+        const results = await superSelector.executeMany([
+            "#product | later() | .price | textContent",
+            "#product | later() | css('h2') | textContent",
+        ])
+
+        expect(calls).toBe(1)
+        expect(results["#product | later() | css('h2') | textContent"].value).toBe("Lamp")
+    })
+
+    it("should keep soft errors and parse errors to their own selector", async () => {
+        const results = await superSelector.executeMany({
+            missing: "#product | .rating | textContent",
+            title: "#product | css('h2') | textContent",
+            invalid: "#product | [x]",
+        })
+
+        expect(results.missing).toMatchObject({ success: false, value: null, error: { code: "EXECUTION_ERROR" } })
+        expect(results.title).toMatchObject({ success: true, value: "Lamp", error: undefined })
+        expect(results.invalid.error?.code).toBe("PARSE_ERROR")
+    })
+
+    it("should fail every selector below a hard error in a shared command", async () => {
+        superSelector.configure({ errorHandling: "throw" })
+        const results = await superSelector.executeMany({
+            first: "#product | [3] | id",
+            second: "#product | [3] | textContent",
+            other: "#product | id",
+        })
+
+        expect(results.first.success).toBe(false)
+        expect(results.second.error).toBe(results.first.error)
+        expect(results.other.value).toBe("product")
+    })
+
+    it("should only let a selector's final command return undefined", async () => {
+        const results = await superSelector.executeMany({
+            last: "#product | nothing()",
+            inner: "#product | nothing() | id",
+        })
+
+        expect(results.last).toMatchObject({ success: true, value: undefined })
+        expect(results.inner.success).toBe(false)
+        expect(results.inner.error?.message).toContain("resulted in undefined")
+    })
+
+    it("should read and fill the cache per selector", async () => {
+        await superSelector.executeMany(["#product | count() | id"])
+        const results = await superSelector.executeMany(["#product | count() | id", "#product | count() | tagName"])
+
+        expect(calls).toBe(2)
+        expect(results["#product | count() | id"].metadata.cacheHit).toBe(true)
+        expect(results["#product | count() | tagName"]).toMatchObject({ value: "DIV", metadata: { cacheHit: false } })
+    })
+
+    it("should trace each selector with the shared commands included", async () => {
+        const results = await superSelector.executeMany(["#product | css('h2') | textContent", "#product | id"], document, {
+            trace: true,
+        })
+
+        expect(results["#product | css('h2') | textContent"].trace!.map((step) => step.source)).toEqual([
+            "#product",
+            "css('h2')",
+            "textContent",
+        ])
+        expect(results["#product | id"].trace!.map((step) => step.source)).toEqual(["#product", "id"])
+    })
+
+    it("should fail the whole batch when aborted", async () => {
+        const abort = new AbortController()
+        abort.abort()
+        const results = await superSelector.executeMany(["#product | id", "#product | tagName"], document, {
+            signal: abort.signal,
+        })
+
+        expect(Object.values(results).map((result) => result.error?.code)).toEqual(["ABORT_ERROR", "ABORT_ERROR"])
+    })
+})
@@ -24,6 +24,8 @@ describe("Built-in Commands", () => {
             defaultValue: null,
             plugins: [],
             customCommands: {},
+            awaitHooks: false,
+            strict: false,
         },
         metadata: {},
     })
@@ -121,4 +123,76 @@ describe("Built-in Commands", () => {
             expect(result).toBeNull()
         })
     })
+
+    describe("array-slice command", () => {
+        const arr = ["a", "b", "c", "d", "e"]
+
+        it("should slice with start and end", () => {
+            const result = commandRegistry.execute("array-slice", createMockContext(arr), 1, 3, null)
+            expect(result).toEqual(["b", "c"])
+        })
+
+        it("should support negative bounds", () => {
+            expect(commandRegistry.execute("array-slice", createMockContext(arr), -2, null, null)).toEqual(["d", "e"])
+            expect(commandRegistry.execute("array-slice", createMockContext(arr), null, -3, null)).toEqual(["a", "b"])
+        })
+
+        it("should support positive and negative steps", () => {
+            expect(commandRegistry.execute("array-slice", createMockContext(arr), null, null, 2)).toEqual(["a", "c", "e"])
+            expect(commandRegistry.execute("array-slice", createMockContext(arr), null, null, -1)).toEqual([
+                "e",
+                "d",
+                "c",
+                "b",
+                "a",
+            ])
+        })
+
+        it("should return null for empty slices", () => {
+            expect(commandRegistry.execute("array-slice", createMockContext(arr), 3, 1, null)).toBeNull()
+        })
+
+        it("should record a soft error for zero steps and non-arrays", () => {
+            const zeroStep = createMockContext(arr)
+            expect(commandRegistry.execute("array-slice", zeroStep, null, null, 0)).toBeNull()
+            expect(zeroStep.hadSoftError).toBe(true)
+
+            const notArray = createMockContext("text")
+            expect(commandRegistry.execute("array-slice", notArray, 0, 1, null)).toBeNull()
+            expect(notArray.hadSoftError).toBe(true)
+        })
+    })
+
+    describe("higher-order commands", () => {
+        const items = [{ n: 3 }, { n: 1 }, { n: 2 }]
+        const byN = (item: any) => item.n
+
+        it("should map items through a sub-pipeline", () => {
+            expect(commandRegistry.execute("map", createMockContext(items), byN)).toEqual([3, 1, 2])
+        })
+
+        it("should filter items by a sub-pipeline", () => {
+            const result = commandRegistry.execute("filter", createMockContext(items), (item: any) => item.n > 1)
+            expect(result).toEqual([{ n: 3 }, { n: 2 }])
+            expect(commandRegistry.execute("filter", createMockContext(items), () => false)).toBeNull()
+        })
+
+        it("should sort items by a sub-pipeline", () => {
+            expect(commandRegistry.execute("sortBy", createMockContext(items), byN)).toEqual([{ n: 1 }, { n: 2 }, { n: 3 }])
+            expect(commandRegistry.execute("sortBy", createMockContext(items), byN, "desc")).toEqual([
+                { n: 3 },
+                { n: 2 },
+                { n: 1 },
+            ])
+        })
+
+        it("should evaluate some and every", () => {
+            expect(commandRegistry.execute("some", createMockContext(items), (item: any) => item.n === 2)).toBe(true)
+            expect(commandRegistry.execute("every", createMockContext(items), (item: any) => item.n > 1)).toBe(false)
+        })
+
+        it("should reject non-pipeline arguments", () => {
+            expect(() => commandRegistry.execute("map", createMockContext(items), "n")).toThrow()
+        })
+    })
 })
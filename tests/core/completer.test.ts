@@ -0,0 +1,104 @@
+/**
+ * @jest-environment jsdom
+ */
+import { SuperSelector } from "../../src/core/super-selector"
+import type { CompletionContext, CompletionItem } from "../../src/types"
+
+describe("Completions", () => {
+    let superSelector: SuperSelector
+
+    beforeEach(() => {
+        superSelector = new SuperSelector()
+        document.body.innerHTML = `
+            <ul id="list" class="items">
+                <li class="item active" data-price="10">One</li>
+                <li class="item" data-price="20">Two</li>
+            </ul>
+            <a id="link" href="/x">Link</a>
+        `
+    })
+
+    afterEach(() => {
+        superSelector.destroy()
+    })
+
+    const labels = (items: CompletionItem[]) => items.map((item) => item.label)
+
+    it("should suggest tags, classes and ids from the root at the start of a pipeline", () => {
+        expect(labels(superSelector.getCompletions("l", 1, document))).toEqual(["li"])
+        expect(labels(superSelector.getCompletions("ul .it", 6, document))).toEqual([".item", ".items"])
+
+        const ids = superSelector.getCompletions("{ a: #li", 8, document)
+        expect(ids).toEqual([{ label: "#link", kind: "id", replace: { start: 5, end: 8 } }, expect.anything()])
+        expect(labels(ids)).toEqual(["#link", "#list"])
+    })
+
+    it("should suggest selectors inside open css strings", () => {
+        expect(labels(superSelector.getCompletions(`$"ul .act`, 9, document))).toEqual([".active"])
+        expect(labels(superSelector.getCompletions(`li | closest('#li`, 17, document))).toEqual(["#link", "#list"])
+        expect(superSelector.getCompletions(`a | split('#li`, 14, document)).toEqual([])
+    })
+
+    it("should suggest commands with descriptions and members of the live value after a pipe", () => {
+        const items = superSelector.getCompletions("#list li | fil", 14, document)
+        const command = items.find((item) => item.kind === "command")
+        expect(command).toMatchObject({ label: "filter", replace: { start: 11, end: 14 } })
+        expect(command!.detail).toEqual(expect.any(String))
+        expect(items.map((item) => `${item.kind}:${item.label}`)).toEqual(["method:fill", "method:filter", "command:filter"])
+
+        const members = superSelector.getCompletions("#link | textC", 13, document)
+        expect(members).toEqual([expect.objectContaining({ label: "textContent", kind: "property" })])
+    })
+
+    it("should complete property paths and where() expressions from the value", () => {
+        expect(labels(superSelector.getCompletions("#list li | dataset.pr", 21, document))).toEqual(["price"])
+        expect(labels(superSelector.getCompletions("#link | @hre", 12, document))).toEqual(["href", "hreflang"])
+        expect(labels(superSelector.getCompletions("#list li | where(class", 22, document))).toEqual([
+            "classList",
+            "className",
+        ])
+    })
+
+    it("should fall back to known members without a root", () => {
+        const items = superSelector.getCompletions("a | getAttr")
+        expect(items.map((item) => `${item.kind}:${item.label}`)).toEqual([
+            "method:getAttribute",
+            "method:getAttributeNames",
+        ])
+        expect(superSelector.getCompletions("a")).toEqual([])
+    })
+
+    it("should return nothing where no name is expected", () => {
+        expect(superSelector.getCompletions("a | getAttribute('hr", 20, document)).toEqual([])
+        expect(superSelector.getCompletions("li | [0", 7, document)).toEqual([])
+        expect(superSelector.getCompletions("li | trim() x", 13, document)).toEqual([])
+    })
+
+    it("should include custom providers until they are removed", () => {
+        const provider = jest.fn((context: CompletionContext): CompletionItem[] =>
+            context.position === "command" ? [{ label: "price", kind: "property", replace: context.replace }] : [],
+        )
+        superSelector.addCompletionProvider(provider)
+
+        expect(labels(superSelector.getCompletions("a | pr"))).toContain("price")
+        expect(provider).toHaveBeenCalledWith(expect.objectContaining({ position: "command", prefix: "pr", cursor: 6 }))
+
+        expect(superSelector.removeCompletionProvider(provider)).toBe(true)
+        expect(superSelector.removeCompletionProvider(provider)).toBe(false)
+        expect(labels(superSelector.getCompletions("a | pr"))).not.toContain("price")
+    })
+
+    it("should evaluate prefixes without events, hooks or caching", () => {
+        superSelector.configure({ cacheEnabled: true })
+        const events = jest.fn()
+        for (const type of ["execution:start", "execution:complete", "execution:error", "command:executed"]) {
+            superSelector.on(type, events)
+        }
+
+        expect(labels(superSelector.getCompletions("#list li | [0] | text", 21, document))).toContain("textContent")
+        superSelector.getCompletions("#list | nope | te", 17, document)
+
+        expect(events).not.toHaveBeenCalled()
+        expect(superSelector.getCacheStats().size).toBe(0)
+    })
+})
@@ -0,0 +1,144 @@
+/**
+ * @jest-environment jsdom
+ */
+import { SuperSelector } from "../../src/core/super-selector"
+import type { Debugger } from "../../src/core/debugger"
+import type { DebuggerPause } from "../../src/types"
+
+const nextPause = (controller: Debugger) =>
+    new Promise<DebuggerPause>((resolve) => {
+        const off = controller.onPause((pause) => {
+            off()
+            resolve(pause)
+        })
+    })
+
+describe("Debugger", () => {
+    let superSelector: SuperSelector
+    let controller: Debugger
+
+    beforeEach(() => {
+        document.body.innerHTML = `
+            <ul id="list">
+                <li class="item">One</li>
+                <li class="item">Two</li>
+            </ul>
+        `
+        superSelector = new SuperSelector()
+        controller = superSelector.attachDebugger()
+        jest.spyOn(console, "error").mockImplementation(() => {})
+    })
+
+    afterEach(() => {
+        superSelector.destroy()
+        jest.restoreAllMocks()
+    })
+
+    it("should pause at a breakpoint and expose the current value", async () => {
+        controller.setBreakpoint(1)
+        const paused = nextPause(controller)
+        const execution = superSelector.execute("#list li | [1] | textContent")
+
+        const pause = await paused
+        expect(pause).toMatchObject({ index: 1, source: "[1]", reason: "breakpoint" })
+        expect(pause.context.currentValue).toHaveLength(2)
+        expect(controller.paused).toBe(pause)
+
+        controller.continue()
+        expect((await execution).value).toBe("Two")
+        expect(controller.paused).toBeNull()
+    })
+
+    it("should break by command name and step through the rest", async () => {
+        controller.setBreakpoint("map")
+        const reasons: string[] = []
+        controller.onPause((pause) => {
+            reasons.push(`${pause.index}:${pause.reason}`)
+            controller.step()
+        })
+
+        const result = await superSelector.execute("#list li | map(| textContent) | join(',')")
+        expect(result.value).toBe("One,Two")
+        expect(reasons).toEqual(["1:breakpoint", "2:step"])
+    })
+
+    it("should run with values changed while paused", async () => {
+        controller.setBreakpoint(1)
+        const paused = nextPause(controller)
+        const execution = superSelector.execute("#list li | [0] | textContent")
+
+        const pause = await paused
+        pause.context.currentValue = Array.from(document.querySelectorAll("li")).reverse()
+        controller.continue()
+        expect((await execution).value).toBe("Two")
+    })
+
+    it("should abort the paused execution", async () => {
+        controller.setBreakpoint(0)
+        const paused = nextPause(controller)
+        const execution = superSelector.execute("#list li | textContent")
+
+        await paused
+        controller.abort()
+        const result = await execution
+        expect(result.success).toBe(false)
+        expect(result.error?.code).toBe("ABORT_ERROR")
+    })
+
+    it("should not count paused time against the timeout", async () => {
+        superSelector.configure({ timeout: 20 })
+        controller.setBreakpoint(1)
+        const paused = nextPause(controller)
+        const execution = superSelector.execute("#list li | [0] | textContent")
+
+        await paused
+        await new Promise((resolve) => setTimeout(resolve, 50))
+        controller.continue()
+        expect((await execution).value).toBe("One")
+    })
+
+    it("should let the caller's signal cancel a paused execution", async () => {
+        controller.setBreakpoint(1)
+        const paused = nextPause(controller)
+        const abort = new AbortController()
+        const execution = superSelector.execute("#list li | [0]", document, { signal: abort.signal })
+
+        await paused
+        abort.abort()
+        expect((await execution).error?.code).toBe("ABORT_ERROR")
+        expect(controller.paused).toBeNull()
+    })
+
+    it("should never pause synchronous runs", () => {
+        controller.setBreakpoint(0)
+        const listener = jest.fn()
+        controller.onPause(listener)
+
+        expect(superSelector.compile("#list li | [0] | textContent").runSync().value).toBe("One")
+        expect(listener).not.toHaveBeenCalled()
+    })
+
+    it("should only pause between top-level commands", async () => {
+        controller.setBreakpoint("textContent")
+        const listener = jest.fn()
+        controller.onPause(listener)
+
+        expect((await superSelector.execute("#list li | map(| textContent)")).value).toEqual(["One", "Two"])
+        expect(listener).not.toHaveBeenCalled()
+    })
+
+    it("should release held executions when detached", async () => {
+        controller.setBreakpoint(1)
+        const paused = nextPause(controller)
+        const execution = superSelector.execute("#list li | [1] | textContent")
+
+        await paused
+        superSelector.detachDebugger()
+        expect((await execution).value).toBe("Two")
+
+        const listener = jest.fn()
+        controller.onPause(listener)
+        await superSelector.execute("#list li | [1]")
+        expect(listener).not.toHaveBeenCalled()
+    })
+})
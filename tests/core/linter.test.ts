@@ -0,0 +1,80 @@
+/**
+ * @jest-environment jsdom
+ */
+import { SuperSelector } from "../../src/core/super-selector"
+
+describe("Selector linter", () => {
+    let superSelector: SuperSelector
+
+    beforeEach(() => {
+        superSelector = new SuperSelector()
+    })
+
+    afterEach(() => {
+        superSelector.destroy()
+    })
+
+    const codes = (selector: string) => superSelector.lint(selector).diagnostics.map((d) => d.code)
+
+    it("should accept valid selectors", () => {
+        const result = superSelector.lint("#list li | filter(| textContent | includes('Sale')) | getAttribute('href') | [0:5]")
+        expect(result).toEqual({ isValid: true, diagnostics: [] })
+    })
+
+    it("should report unknown commands with suggestions and spans", () => {
+        const result = superSelector.lint("a | getAtribute('href') | trim()")
+        expect(result.isValid).toBe(false)
+        expect(result.diagnostics).toHaveLength(1)
+        expect(result.diagnostics[0]).toMatchObject({
+            code: "UNKNOWN_COMMAND",
+            severity: "error",
+            start: 4,
+            end: 23,
+            suggestions: ["getAttribute"],
+        })
+        expect(result.diagnostics[0].message).toContain("did you mean 'getAttribute'?")
+    })
+
+    it("should check nested pipelines", () => {
+        expect(codes("{ a: h1 | textContnet, b: li | map(| tirm()) } || div | flter(| id)")).toEqual([
+            "UNKNOWN_PROPERTY",
+            "UNKNOWN_COMMAND",
+            "UNKNOWN_COMMAND",
+        ])
+    })
+
+    it("should validate arguments of registered commands", () => {
+        expect(codes("li | sortBy('x')")).toEqual(["INVALID_ARGUMENTS"])
+        expect(codes("li | map(| textContent, | id)")).toEqual(["INVALID_ARGUMENTS"])
+    })
+
+    it("should check argument counts of native methods", () => {
+        const result = superSelector.lint("a | getAttribute() | trim('x')")
+        expect(result.diagnostics.map((d) => [d.code, d.severity])).toEqual([
+            ["INVALID_ARGUMENTS", "error"],
+            ["INVALID_ARGUMENTS", "warning"],
+        ])
+        expect(result.diagnostics[0].message).toBe("'getAttribute' expects 1 argument, got 0")
+    })
+
+    it("should flag patterns that are always empty", () => {
+        expect(codes("li | [3:1]")).toEqual(["ALWAYS_EMPTY"])
+        expect(codes("li | [-1:-3]")).toEqual(["ALWAYS_EMPTY"])
+        expect(codes("li | [1:-1]")).toEqual([])
+        expect(codes("li | [1:3:-1]")).toEqual(["ALWAYS_EMPTY"])
+        expect(codes("li | [::0]")).toEqual(["INVALID_SLICE"])
+        expect(codes("li | where(1 > 2)")).toEqual(["ALWAYS_EMPTY"])
+        expect(codes("li | where(dataset.stock > 2)")).toEqual([])
+    })
+
+    it("should report invalid CSS and XPath", () => {
+        expect(codes("div[ | textContent")).toEqual(["INVALID_SELECTOR"])
+        expect(codes("ul | xpath('.//[')")).toEqual(["INVALID_XPATH"])
+    })
+
+    it("should return parse errors as lint errors", () => {
+        const result = superSelector.lint("li | [x]")
+        expect(result.isValid).toBe(false)
+        expect(result.diagnostics[0]).toMatchObject({ code: "INVALID_ARRAY_INDEX", severity: "error", suggestions: [] })
+    })
+})
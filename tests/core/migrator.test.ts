@@ -0,0 +1,81 @@
+/**
+ * @jest-environment jsdom
+ */
+import { SuperSelector } from "../../src/core/super-selector"
+import { SuperSelector as LegacySuperSelector } from "../../src/super-selector"
+import { Parser } from "../../src/parser/parser"
+
+describe("Legacy selector migration", () => {
+    let superSelector: SuperSelector
+
+    beforeEach(() => {
+        document.body.innerHTML = `
+            <ul id="list">
+                <li data-id="1" class="item"><a href="/one"> One </a></li>
+                <li data-id="2" class="item sale"><a href="/two"> Two </a></li>
+            </ul>
+            <p id="single"><a href="/solo">Solo</a></p>
+        `
+        superSelector = new SuperSelector({ cacheEnabled: false })
+        jest.spyOn(console, "log").mockImplementation(() => {})
+    })
+
+    afterEach(() => {
+        superSelector.destroy()
+        jest.restoreAllMocks()
+    })
+
+    const codes = (selector: string) => superSelector.migrate(selector).differences.map((d) => d.code)
+
+    it.each([
+        "#list li | [1] | textContent",
+        "#list a | getAttribute('href')",
+        "#list a | textContent | trim()",
+        "#list a | getAttribute('href').toUpperCase()",
+        "#single a | getAttribute('href') | replace('/', '#')",
+        "#list li | matchProp('className', 'sale') | [0] | dataset",
+        "#list li | getProp('className')",
+    ])("should give the same value as the legacy engine for %s", async (legacy) => {
+        const { selector } = superSelector.migrate(legacy)
+        const result = await superSelector.execute(selector)
+        expect(result.value).toEqual(LegacySuperSelector.superSelector(legacy, document))
+    })
+
+    it("should wrap per-item calls in map() and keep whole-value helpers", () => {
+        expect(superSelector.migrate("ul li | getAttribute('x').trim() | [0]").selector).toBe(
+            "ul li | map(| getAttribute('x') | trim()) | [0]",
+        )
+        expect(superSelector.migrate("ul li | getProp('id') | propIncludes('id', 'a')").selector).toBe(
+            "ul li | getProp('id') | propIncludes('id', 'a')",
+        )
+    })
+
+    it("should keep legacy readings of bare words and dotted segments", () => {
+        expect(superSelector.migrate("document | title").selector).toBe("@document | title")
+        expect(superSelector.migrate("#x a | dataset.id").selector).toBe("#x a | css('dataset.id')")
+        expect(superSelector.migrate("#x a | textContent()").selector).toBe("#x a | textContent")
+    })
+
+    it.each(["a[title='x|y'] | textContent", `#list | a[href="/a|b"] | [0]`])(
+        "should print commands that read back unchanged for %s",
+        (legacy) => {
+            const result = superSelector.migrate(legacy)
+            expect(new Parser().parse(result.selector).commands).toEqual(result.commands)
+        },
+    )
+
+    it("should report differences with spans into the legacy selector", () => {
+        const { differences } = superSelector.migrate("a | textContent | trim()")
+        expect(differences.map((d) => [d.code, d.start, d.end])).toEqual([
+            ["NULL_ITEMS", 18, 24],
+            ["MAPPED_CALL", 18, 24],
+        ])
+
+        expect(codes("a | dataset.id")).toEqual(["DOTTED_SEGMENT"])
+        expect(codes("a | textContent()")).toEqual(["CALL_AS_PROPERTY"])
+        expect(codes("li | propIncludes('className', 'x')")).toEqual(["FILTERED_ITEMS"])
+        expect(codes("a[title='x|y']")).toEqual(["PIPE_IN_QUOTES"])
+        expect(codes("a || b")).toEqual(["EMPTY_SEGMENT"])
+        expect(codes("#list li | [0] | textContent")).toEqual([])
+    })
+})
@@ -2,6 +2,7 @@
  * @jest-environment jsdom
  */
 import { SuperSelector } from "../../src/core/super-selector"
+import { ParseError } from "../../src/core/errors"
 
 describe("SuperSelector (Refactored)", () => {
     let superSelector: SuperSelector
@@ -53,6 +54,15 @@ describe("SuperSelector (Refactored)", () => {
             expect((result.value as Element).textContent).toBe("Item 2")
         })
 
+        it("should execute array slices", async () => {
+            const result = await superSelector.execute("#list li | [0:2] | textContent")
+            expect(result.success).toBe(true)
+            expect(result.value).toEqual(["Item 1", "Item 2"])
+
+            const everyOther = await superSelector.execute("#list li | [::2] | textContent")
+            expect(everyOther.value).toEqual(["Item 1", "Item 3"])
+        })
+
         it("should execute complex chains", async () => {
             const result = await superSelector.execute("#list li | [1] | textContent")
             expect(result.success).toBe(true)
@@ -60,6 +70,244 @@ describe("SuperSelector (Refactored)", () => {
         })
     })
 
+    describe("Compiled selectors", () => {
+        it("should run like execute, asynchronously and synchronously", async () => {
+            const compiled = superSelector.compile("#list li | textContent | [0:2]")
+            const expected = await superSelector.execute("#list li | textContent | [0:2]")
+
+            expect((await compiled.run()).value).toEqual(expected.value)
+            expect(compiled.runSync(document).value).toEqual(["Item 1", "Item 2"])
+        })
+
+        it("should run against different roots", () => {
+            const compiled = superSelector.compile("li | dataset.id")
+            expect(compiled.runSync(document.getElementById("list")!).value).toEqual(["1", "2", "3"])
+            expect(compiled.runSync(document.querySelector("p")!).value).toBeNull()
+        })
+
+        it("should expose its source and frozen commands", () => {
+            const compiled = superSelector.compile("{ text: h1 | textContent }")
+            expect(compiled.source).toBe("{ text: h1 | textContent }")
+            expect(compiled.commands[0].type).toBe("object")
+            expect(Object.isFrozen(compiled)).toBe(true)
+            expect(Object.isFrozen(compiled.commands)).toBe(true)
+            expect(Object.isFrozen((compiled.commands[0] as any).fields[0].commands[0])).toBe(true)
+        })
+
+        it("should throw parse errors at compile time", () => {
+            expect(() => superSelector.compile("li | [x]")).toThrow(ParseError)
+        })
+    })
+
+    describe("Macros", () => {
+        it("should expand macros in executed and compiled selectors", async () => {
+            superSelector.defineMacro("cleanText", "textContent | trim() | replace(' ', '-')")
+            superSelector.defineMacro("nth", "css('li') | [$1] | @cleanText")
+
+            expect((await superSelector.execute("#list li | map(| @cleanText)")).value).toEqual(["Item-1", "Item-2", "Item-3"])
+            expect(superSelector.compile("#list | nth(1)").runSync().value).toBe("Item-2")
+            expect(superSelector.getMacros().map((macro) => [macro.name, macro.arity])).toEqual([
+                ["cleanText", 0],
+                ["nth", 1],
+            ])
+        })
+
+        it("should keep macros per instance", async () => {
+            const other = new SuperSelector()
+            superSelector.defineMacro("label", "textContent")
+
+            expect((await other.execute("a | @label")).value).toBeNull()
+            expect((await superSelector.execute("a | @label")).value).toBe("Link")
+            expect(superSelector.removeMacro("label")).toBe(true)
+            expect((await superSelector.execute("a | @label")).value).toBeNull()
+        })
+
+        it("should reject invalid names and bodies when defined", () => {
+            expect(() => superSelector.defineMacro("filter", "textContent")).toThrow("Invalid macro name 'filter'")
+            expect(() => superSelector.defineMacro("my macro", "textContent")).toThrow("Invalid macro name")
+            expect(() => superSelector.defineMacro("broken", "li | [x]")).toThrow(ParseError)
+            expect(() => superSelector.defineMacro("self", "a | @self")).toThrow("Macro cycle: self -> self")
+            expect(() => superSelector.defineMacro("zero", "getAttribute($0)")).toThrow("numbered from $1")
+            expect(superSelector.getMacros()).toEqual([])
+        })
+
+        it("should report errors inside expanded macros at the call site", async () => {
+            superSelector.defineMacro("attr", "getAttribute($1) | [$2]")
+
+            const result = await superSelector.execute("a | attr('href', x)")
+            expect(result.success).toBe(false)
+            expect(result.error).toBeInstanceOf(ParseError)
+            expect(result.error!.message).toContain("In macro 'attr': Expected number in array access")
+            expect((result.error as ParseError).span).toEqual({ start: 4, end: 19 })
+        })
+    })
+
+    describe("Explicit segments", () => {
+        it("should not split selectors on pipes inside attribute values", async () => {
+            document.querySelector("a")!.setAttribute("title", "x|y")
+            const result = await superSelector.execute(`a[title="x|y"] | textContent`)
+            expect(result.success).toBe(true)
+            expect(result.value).toBe("Link")
+        })
+
+        it("should select tags by name after the first segment with css(...)", async () => {
+            const result = await superSelector.execute(`#container | css("p") | css("span") | textContent`)
+            expect(result.value).toBe("World")
+        })
+
+        it("should evaluate XPath segments against the current elements", async () => {
+            const byText = await superSelector.execute(`//li[text()='Item 2']/following-sibling::li | textContent`)
+            expect(byText.value).toBe("Item 3")
+
+            const relative = await superSelector.execute(`#list li | ./self::*[@class='active'] | dataset.id`)
+            expect(relative.value).toEqual(["2"])
+
+            const missing = await superSelector.execute(`#list | xpath('.//table')`)
+            expect(missing.success).toBe(true)
+            expect(missing.value).toBeNull()
+        })
+
+        it("should fail on invalid XPath expressions", async () => {
+            const result = await superSelector.execute(`#list | xpath('.//[')`)
+            expect(result.success).toBe(false)
+            expect(result.error?.message).toContain("Invalid XPath expression")
+        })
+
+        it("should read properties at the start of a field with @name", async () => {
+            const result = await superSelector.execute(`#list li | { id: @"className", text: @textContent }`)
+            expect(result.value).toEqual([
+                { id: "", text: "Item 1" },
+                { id: "active", text: "Item 2" },
+                { id: "", text: "Item 3" },
+            ])
+        })
+    })
+
+    describe("Property paths", () => {
+        it("should walk dotted paths per item", async () => {
+            const result = await superSelector.execute("#list li | dataset.id")
+            expect(result.success).toBe(true)
+            expect(result.value).toEqual(["1", "2", "3"])
+        })
+
+        it("should support bracket keys", async () => {
+            const result = await superSelector.execute("#list | children[1] | attributes['data-id'] | value")
+            expect(result.success).toBe(true)
+            expect(result.value).toBe("2")
+        })
+
+        it("should return null for optional misses without a soft error", async () => {
+            const result = await superSelector.execute("#container | firstElementChild.dataset?.missing?.value")
+            expect(result.success).toBe(true)
+            expect(result.value).toBeNull()
+        })
+
+        it("should report the failing segment", async () => {
+            const result = await superSelector.execute("#container | dataset.missing.value")
+            expect(result.success).toBe(false)
+            expect(result.error?.message).toContain("Property 'missing' not found at segment 2 of 'dataset.missing.value'")
+        })
+    })
+
+    describe("Object projection", () => {
+        it("should extract a record from the current value", async () => {
+            const result = await superSelector.execute("#container | { text: p | textContent, link: a | href }")
+            expect(result.success).toBe(true)
+            expect(result.value).toEqual({ text: "Hello World", link: "http://localhost/path/to/page.html" })
+        })
+
+        it("should build one record per element", async () => {
+            const result = await superSelector.execute("#list li | { id: getAttribute('data-id'), label: p('textContent') }")
+            expect(result.success).toBe(true)
+            expect(result.value).toEqual([
+                { id: "1", label: "Item 1" },
+                { id: "2", label: "Item 2" },
+                { id: "3", label: "Item 3" },
+            ])
+        })
+
+        it("should report soft errors from fields", async () => {
+            const result = await superSelector.execute("#container | { missing: .nope | textContent }")
+            expect(result.success).toBe(false)
+            expect(result.value).toEqual({ missing: null })
+        })
+    })
+
+    describe("Higher-order commands", () => {
+        it("should filter with a sub-pipeline", async () => {
+            const result = await superSelector.execute("#list li | filter(| className | includes('active')) | textContent")
+            expect(result.success).toBe(true)
+            expect(result.value).toEqual(["Item 2"])
+        })
+
+        it("should map with a sub-pipeline", async () => {
+            const result = await superSelector.execute("#list li | map(| getAttribute('data-id') | padStart(3, '0'))")
+            expect(result.success).toBe(true)
+            expect(result.value).toEqual(["001", "002", "003"])
+        })
+
+        it("should sort by a sub-pipeline", async () => {
+            const result = await superSelector.execute("#list li | sortBy(| dataset | p('id'), 'desc') | textContent")
+            expect(result.value).toEqual(["Item 3", "Item 2", "Item 1"])
+        })
+
+        it("should filter with a predicate expression", async () => {
+            const result = await superSelector.execute(
+                "#list li | where(dataset.id >= 2 && className ~= 'active') | textContent",
+            )
+            expect(result.success).toBe(true)
+            expect(result.value).toEqual(["Item 2"])
+        })
+
+        it("should evaluate some and every", async () => {
+            const some = await superSelector.execute("#list li | some(| className | includes('active'))")
+            expect(some.value).toBe(true)
+            const every = await superSelector.execute("#list li | every(| className | includes('active'))")
+            expect(every.value).toBe(false)
+        })
+    })
+
+    describe("Fallback operator", () => {
+        it("should return the first branch that yields a value", async () => {
+            const result = await superSelector.execute(".missing | textContent || #list .active | textContent")
+            expect(result.success).toBe(true)
+            expect(result.error).toBeUndefined()
+            expect(result.value).toBe("Item 2")
+            expect(result.metadata.matchedBranch).toBe(1)
+        })
+
+        it("should prefer earlier branches", async () => {
+            const result = await superSelector.execute("#container | id || #list | id")
+            expect(result.value).toBe("container")
+            expect(result.metadata.matchedBranch).toBe(0)
+        })
+
+        it("should report the matched branch on cache hits", async () => {
+            superSelector.configure({ cacheEnabled: true })
+            const selector = ".missing | textContent || #list .active | textContent"
+            await superSelector.execute(selector)
+            const cached = await superSelector.execute(selector)
+            expect(cached).toMatchObject({ value: "Item 2", metadata: { cacheHit: true, matchedBranch: 1 } })
+
+            const [batched] = Object.values(await superSelector.executeMany([selector]))
+            expect(batched.metadata).toMatchObject({ cacheHit: true, matchedBranch: 1 })
+        })
+
+        it("should skip branches that throw in throw mode", async () => {
+            superSelector.configure({ errorHandling: "throw", cacheEnabled: false })
+            const result = await superSelector.execute(".missing | textContent || a | title")
+            expect(result.success).toBe(true)
+            expect(result.value).toBe("Test Link")
+        })
+
+        it("should report the last branch error when nothing matches", async () => {
+            const result = await superSelector.execute(".missing | textContent || .also-missing | textContent")
+            expect(result.success).toBe(false)
+            expect(result.value).toBeNull()
+            expect(result.metadata.matchedBranch).toBeUndefined()
+        })
+    })
+
     describe("Built-in commands", () => {
         it("should execute getProp command", async () => {
             const result = await superSelector.execute('#list li | getProp("textContent")')
@@ -120,6 +368,125 @@ describe("SuperSelector (Refactored)", () => {
         })
     })
 
+    describe("Per-call options", () => {
+        it("should override the instance config for one call only", async () => {
+            const overridden = superSelector.execute(".non-existent | textContent", document, {
+                errorHandling: "return-default",
+                defaultValue: "DEFAULT",
+            })
+            const plain = superSelector.execute(".non-existent | textContent")
+
+            expect((await overridden).value).toBe("DEFAULT")
+            expect((await plain).value).toBeNull()
+            expect(superSelector.getConfig().errorHandling).toBe("return-null")
+        })
+
+        it("should override caching and the maximum depth", async () => {
+            await superSelector.execute("#container | id")
+            const uncached = await superSelector.execute("#container | id", document, { cacheEnabled: false })
+            expect(uncached.metadata.cacheHit).toBe(false)
+
+            const nested = "#list li | map(| textContent)"
+            expect((await superSelector.execute(nested, document, { maxDepth: 0 })).error?.message).toContain(
+                "Maximum execution depth exceeded",
+            )
+            expect(superSelector.compile(nested).runSync(document, { maxDepth: 1 }).success).toBe(true)
+        })
+
+        it("should keep undefined options from overriding the config", async () => {
+            superSelector.configure({ errorHandling: "return-default", defaultValue: "DEFAULT" })
+            const result = await superSelector.execute(".non-existent | textContent", document, { errorHandling: undefined })
+            expect(result.value).toBe("DEFAULT")
+        })
+
+        it("should read variables with var() and bypass the cache", async () => {
+            const options = { variables: { list: document.getElementById("list"), limit: 2 } }
+            const first = await superSelector.execute("var('list') | .active | textContent", document, options)
+            expect(first.value).toBe("Item 2")
+
+            const again = await superSelector.execute("var('list') | .active | textContent", document, options)
+            expect(again.metadata.cacheHit).toBe(false)
+            expect((await superSelector.execute("#list li | map(| var('limit'))", document, options)).value).toEqual([2, 2, 2])
+
+            const missing = await superSelector.execute("#list | var('other')")
+            expect(missing.success).toBe(false)
+            expect(missing.error?.message).toContain("Unknown variable 'other'")
+        })
+    })
+
+    describe("Cancellation", () => {
+        const slow = {
+            execute: (context: any) => {
+                const until = Date.now() + 30
+                while (Date.now() < until) {
+                    // Busy wait so the deadline passes between commands
+                }
+                return context.currentValue
+            },
+        }
+
+        const recreate = (config: ConstructorParameters<typeof SuperSelector>[0]) => {
+            superSelector.destroy()
+            superSelector = new SuperSelector(config)
+        }
+
+        it("should fail with a TIMEOUT_ERROR when the timeout elapses", async () => {
+            recreate({ timeout: 10, cacheEnabled: false, customCommands: { slow } })
+
+            const result = await superSelector.execute("#list li | slow() | [0] | textContent")
+            expect(result.success).toBe(false)
+            expect(result.error).toMatchObject({ code: "TIMEOUT_ERROR" })
+        })
+
+        it("should return null rather than the default value on timeout or abort in return-default mode", async () => {
+            recreate({
+                timeout: 10,
+                cacheEnabled: false,
+                errorHandling: "return-default",
+                defaultValue: "DEFAULT",
+                customCommands: { slow },
+            })
+
+            const result = await superSelector.execute("#list li | slow() | [0]")
+            expect(result.value).toBeNull()
+            expect(result.error).toMatchObject({ code: "TIMEOUT_ERROR" })
+
+            const controller = new AbortController()
+            controller.abort()
+            const aborted = await superSelector.execute("#list li", document, { signal: controller.signal })
+            expect(aborted).toMatchObject({ value: null, error: { code: "ABORT_ERROR" } })
+
+            expect((await superSelector.execute("#list li | [9]")).value).toBe("DEFAULT")
+        })
+
+        it("should fail with an ABORT_ERROR when the signal is aborted", async () => {
+            const controller = new AbortController()
+            controller.abort()
+
+            const result = await superSelector.execute("#list li", document, { signal: controller.signal })
+            expect(result.success).toBe(false)
+            expect(result.error).toMatchObject({ code: "ABORT_ERROR" })
+
+            const compiled = superSelector.compile("#list li | [0]")
+            expect(compiled.runSync(document, { signal: controller.signal }).error).toMatchObject({
+                code: "ABORT_ERROR",
+            })
+            expect(compiled.runSync(document).success).toBe(true)
+        })
+
+        it("should pass the signal to command handlers", async () => {
+            let signal: AbortSignal | undefined
+            recreate({
+                cacheEnabled: false,
+                customCommands: { probe: { execute: (context: any) => ((signal = context.signal), context.currentValue) } },
+            })
+
+            await superSelector.execute("#list | probe()")
+            expect(signal).toBeInstanceOf(AbortSignal)
+            expect(signal!.aborted).toBe(false)
+        })
+    })
+
     describe("Static methods (backward compatibility)", () => {
         it("should work with static superSelector method", async () => {
             const result = await SuperSelector.superSelector("#container | id")
@@ -0,0 +1,130 @@
+/**
+ * @jest-environment jsdom
+ */
+import { SuperSelector } from "../../src/core/super-selector"
+import { summarizeValue } from "../../src/core/trace"
+
+describe("Execution trace", () => {
+    let superSelector: SuperSelector
+
+    beforeEach(() => {
+        document.body.innerHTML = `
+            <ul id="list">
+                <li id="first" class="item">One</li>
+                <li class="item sale">Two</li>
+                <li class="item">Three</li>
+            </ul>
+        `
+        superSelector = new SuperSelector()
+        jest.spyOn(console, "error").mockImplementation(() => {})
+    })
+
+    afterEach(() => {
+        superSelector.destroy()
+        jest.restoreAllMocks()
+    })
+
+    it("should record each command with its span, input, output and duration", async () => {
+        const { trace } = await superSelector.explain("#list li | [1] | textContent")
+
+        expect(trace).toHaveLength(3)
+        expect(trace![0]).toMatchObject({
+            index: 0,
+            source: "#list li",
+            span: { start: 0, end: 8 },
+            input: { type: "document" },
+            output: { type: "array", count: 3, elements: ["li#first.item", "li.item.sale", "li.item"] },
+        })
+        expect(trace![1]).toMatchObject({ source: "[1]", output: { type: "element", preview: "li.item.sale" } })
+        expect(trace![2]).toMatchObject({ source: "textContent", output: { type: "string", preview: '"Two"' } })
+        expect(trace!.every((step) => step.duration >= 0 && step.softError === undefined)).toBe(true)
+    })
+
+    it("should show which command lost the data", async () => {
+        const { trace, value } = await superSelector.explain("#list li | [5] | textContent")
+
+        expect(value).toBeNull()
+        expect(trace![1].output).toEqual({ type: "null", preview: "null" })
+        expect(trace![1].softError?.message).toContain("Index 5 out of bounds")
+        expect(trace![2].softError?.message).toContain("Cannot access property 'textContent'")
+    })
+
+    it("should record the soft errors of every failing command", async () => {
+        const { trace, errors } = await superSelector.explain("#list li | nope | [0] | [5] | textContent")
+
+        expect(trace!.map((step) => step.warnings?.map((warning) => warning.code))).toEqual([
+            undefined,
+            ["PROPERTY_NOT_FOUND", "PROPERTY_NOT_FOUND", "PROPERTY_NOT_FOUND"],
+            ["NOT_AN_ARRAY"],
+            ["NOT_AN_ARRAY"],
+            ["NULL_VALUE"],
+        ])
+        expect(trace!.flatMap((step) => step.warnings ?? [])).toEqual(errors)
+        expect(trace![3].softError).toBe(trace![3].warnings![0].error)
+
+        const lines = superSelector.formatTrace(trace!).split("\n")
+        expect(lines[2]).toMatch(/\(soft\) Property 'nope' not found on item 0 of the array \(\+2 more\)$/)
+        expect(lines[4]).toMatch(/\(soft\) .*non-array/)
+        expect(lines[5]).toMatch(/\(soft\) Cannot access property 'textContent'/)
+    })
+
+    it("should show each command expanded from a macro, attributed to the call", async () => {
+        superSelector.defineMacro("cleanText", "textContent | trim() | toUpperCase()")
+        const { trace, value } = await superSelector.explain("#list li | [1] | @cleanText")
+
+        expect(value).toBe("TWO")
+        expect(trace!.map((step) => step.source)).toEqual([
+            "#list li",
+            "[1]",
+            "@textContent (@cleanText)",
+            "trim() (@cleanText)",
+            "toUpperCase() (@cleanText)",
+        ])
+        expect(trace![3].span).toEqual({ start: 17, end: 27 })
+
+        const lines = superSelector.formatTrace(trace!).split("\n")
+        expect(lines[4]).toMatch(/^3\s+trim\(\) \(@cleanText\)\s/)
+    })
+
+    it("should record the command a hard error stopped at", async () => {
+        superSelector.configure({ errorHandling: "throw" })
+        const { trace, success } = await superSelector.explain("#list li | [5] | textContent")
+
+        expect(success).toBe(false)
+        expect(trace).toHaveLength(2)
+        expect(trace![1].output).toBeUndefined()
+        expect(trace![1].error?.command).toMatchObject({ type: "array-access", index: 5 })
+    })
+
+    it("should only trace on request and bypass the cache while tracing", async () => {
+        expect((await superSelector.execute("#list li | [0]")).trace).toBeUndefined()
+
+        const traced = await superSelector.execute("#list li | [0]", document, { trace: true })
+        expect(traced.metadata.cacheHit).toBe(false)
+        expect(traced.trace).toHaveLength(2)
+
+        const compiled = superSelector.compile("#list li | [0] | id")
+        expect(compiled.runSync(document, { trace: true }).trace!.map((step) => step.source)).toEqual([
+            "#list li",
+            "[0]",
+            "id",
+        ])
+    })
+
+    it("should render a text table", async () => {
+        const { trace } = await superSelector.explain("#list li | [5] | textContent")
+        const lines = superSelector.formatTrace(trace!).split("\n")
+
+        expect(lines).toHaveLength(4)
+        expect(lines[0]).toMatch(/^#\s+Command\s+Input\s+Output\s+Time\s+Error$/)
+        expect(lines[1]).toMatch(/^0\s+#list li\s+document\s+\[3\] li#first\.item, li\.item\.sale, li\.item\s+\d+\.\dms$/)
+        expect(lines[2]).toMatch(/^1\s+\[5\]\s+.*null\s+\d+\.\dms\s+\(soft\) .*Index 5 out of bounds/)
+    })
+
+    it("should summarize values briefly", () => {
+        expect(summarizeValue("x".repeat(100)).preview).toHaveLength(40)
+        expect(summarizeValue([1, 2, 3, 4, 5])).toEqual({ type: "array", count: 5, preview: "[5] 1, 2, 3, …" })
+        expect(summarizeValue({ a: 1, b: 2 })).toEqual({ type: "object", preview: "{ a, b }" })
+        expect(summarizeValue(document.querySelector("ul")!.classList).preview).toBe("DOMTokenList")
+    })
+})
@@ -0,0 +1,100 @@
+/**
+ * @jest-environment jsdom
+ */
+import { SuperSelector } from "../../src/core/super-selector"
+import type { SuperSelectorConfig } from "../../src/types"
+
+const later = (fn: () => void, ms = 10) => setTimeout(fn, ms)
+
+describe("Wait commands", () => {
+    let superSelector: SuperSelector
+
+    const create = (config: Partial<SuperSelectorConfig> = {}) => {
+        superSelector?.destroy()
+        superSelector = new SuperSelector({ cacheEnabled: false, ...config })
+    }
+
+    beforeEach(() => {
+        document.body.innerHTML = `
+            <div id="app"><input id="name" value="" /></div>
+        `
+        create()
+    })
+
+    afterEach(() => {
+        superSelector.destroy()
+    })
+
+    const render = (html: string) => document.getElementById("app")!.insertAdjacentHTML("beforeend", html)
+
+    it("should resolve once a matching element is rendered", async () => {
+        later(() => render(`<ul class="results"><li>First</li></ul>`))
+
+        const result = await superSelector.execute("#app | waitFor('.results li') | textContent")
+        expect(result).toMatchObject({ success: true, value: "First" })
+    })
+
+    it("should return right away when the element already exists", async () => {
+        render(`<p class="ready">Here</p>`)
+
+        expect((await superSelector.execute("#app | waitFor('.ready') | textContent")).value).toBe("Here")
+    })
+
+    it("should refuse to wait in synchronous runs without starting to poll", async () => {
+        const checks = jest.fn()
+        superSelector.on("wait:check", checks)
+
+        expect(() => superSelector.executeSync("#app | waitFor('.never')")).toThrow(
+            expect.objectContaining({ code: "ASYNC_COMMAND_ERROR" }),
+        )
+        expect(superSelector.compile("#app | waitUntil(| dataset.missing)").runSync(document).error?.code).toBe(
+            "ASYNC_COMMAND_ERROR",
+        )
+        await new Promise((resolve) => setTimeout(resolve, 250))
+        expect(checks).not.toHaveBeenCalled()
+    })
+
+    it("should give null after its own timeout so fallbacks can continue", async () => {
+        expect((await superSelector.execute("#app | waitFor('.never', 30)")).value).toBeNull()
+
+        const result = await superSelector.execute("#app | waitFor('.never', 30) | textContent || #app | id")
+        expect(result).toMatchObject({ value: "app", metadata: { matchedBranch: 1 } })
+    })
+
+    it("should poll a sub-pipeline for property changes", async () => {
+        later(() => ((document.getElementById("name") as HTMLInputElement).value = "ready"), 20)
+
+        const result = await superSelector.execute("#name | waitUntil(| where(value == 'ready')) | value")
+        expect(result).toMatchObject({ success: true, value: "ready" })
+    })
+
+    it("should stop waiting when the execution times out or is aborted", async () => {
+        create({ timeout: 30 })
+        expect((await superSelector.execute("#app | waitFor('.never')")).error).toMatchObject({ code: "TIMEOUT_ERROR" })
+
+        create({ timeout: 0 })
+        const controller = new AbortController()
+        later(() => controller.abort())
+        const result = await superSelector.execute("#app | waitUntil(| dataset.missing)", document, {
+            signal: controller.signal,
+        })
+        expect(result.error).toMatchObject({ code: "ABORT_ERROR" })
+    })
+
+    it("should emit events while waiting", async () => {
+        const events: string[] = []
+        for (const type of ["wait:start", "wait:check", "wait:resolved", "wait:timeout"]) {
+            superSelector.on(type, (event) => events.push(event.type))
+        }
+        later(() => render(`<p class="late">Late</p>`))
+
+        await superSelector.execute("#app | waitFor('.late')")
+        expect(events[0]).toBe("wait:start")
+        expect(events).toContain("wait:check")
+        expect(events[events.length - 1]).toBe("wait:resolved")
+
+        events.length = 0
+        await superSelector.execute("#app | waitFor('.never', 20)")
+        expect(events[events.length - 1]).toBe("wait:timeout")
+    })
+})
@@ -0,0 +1,137 @@
+/**
+ * @jest-environment jsdom
+ */
+import { SuperSelector } from "../../src/core/super-selector"
+import { reportSoftError } from "../../src/core/warnings"
+import { ErrorFactory } from "../../src/core/errors"
+
+describe("Soft errors", () => {
+    let superSelector: SuperSelector
+
+    beforeEach(() => {
+        document.body.innerHTML = `
+            <ul id="list">
+                <li class="item" data-id="1">One</li>
+                <li class="item">Two</li>
+                <li class="item" data-id="3">Three</li>
+            </ul>
+        `
+        superSelector = new SuperSelector({
+            customCommands: {
+                checked: {
+                    execute: (context: any) => {
+                        reportSoftError(context, "UNCHECKED", ErrorFactory.execution("Not checked", undefined, context))
+                        return context.currentValue
+                    },
+                },
+            },
+        })
+        jest.spyOn(console, "error").mockImplementation(() => {})
+    })
+
+    afterEach(() => {
+        superSelector.destroy()
+        jest.restoreAllMocks()
+    })
+
+    it("should have no errors on success", async () => {
+        const result = await superSelector.execute("#list | id")
+
+        expect(result).toMatchObject({ success: true, value: "list", errors: [] })
+    })
+
+    it("should list every soft error, not only the first", async () => {
+        const result = await superSelector.execute("#list li | [5] | id")
+
+        expect(result.success).toBe(false)
+        expect(result.errors.map((warning) => warning.code)).toEqual(["INDEX_OUT_OF_BOUNDS", "NULL_VALUE"])
+        expect(result.errors[0].error).toBe(result.error)
+        expect(result.errors[1].message).toContain("Cannot access property 'id'")
+    })
+
+    it("should report each array item missing a property", async () => {
+        document.querySelector("li")!.removeAttribute("data-id")
+        const result = await superSelector.execute("#list li | dataset | id")
+
+        expect(result.value).toEqual([null, null, "3"])
+        expect(result.errors).toHaveLength(2)
+        expect(result.errors.map((warning) => warning.itemIndex)).toEqual([0, 1])
+        expect(result.errors[1]).toMatchObject({ code: "PROPERTY_NOT_FOUND", index: 2, command: { name: "id" } })
+    })
+
+    it("should tag warnings from a sub-pipeline with the item index and command", async () => {
+        const result = await superSelector.execute("#list li | map(| getAttribute('data-id') | toUpperCase())")
+
+        expect(result.value).toEqual(["1", null, "3"])
+        expect(result.errors).toHaveLength(1)
+        expect(result.errors[0]).toMatchObject({
+            code: "NULL_VALUE",
+            itemIndex: 1,
+            index: 1,
+            command: { type: "function", name: "toUpperCase" },
+        })
+    })
+
+    it("should point top-level warnings at their source", async () => {
+        const selector = "#list li | [7] | textContent"
+        const result = await superSelector.execute(selector)
+        const { span } = result.errors[0]
+
+        expect(result.errors[0]).toMatchObject({ index: 1, command: { name: "array-access" } })
+        expect(selector.slice(span!.start, span!.end)).toBe("[7]")
+    })
+
+    it("should collect soft errors reported by custom commands", async () => {
+        const result = await superSelector.execute("#list | checked() | id")
+
+        expect(result.value).toBe("list")
+        expect(result.errors).toMatchObject([{ code: "UNCHECKED", message: "Not checked", index: 1 }])
+    })
+
+    it("should fail on every soft error in strict mode", async () => {
+        superSelector.configure({ strict: true })
+        const result = await superSelector.execute("#list li | dataset | id")
+
+        expect(result).toMatchObject({ success: false, value: null, error: { code: "PROPERTY_NOT_FOUND" } })
+    })
+
+    it("should fail with the code of the promoted soft error", async () => {
+        superSelector.configure({ strict: ["INDEX_OUT_OF_BOUNDS"] })
+
+        const result = await superSelector.execute("#list li | [9] | id")
+        expect(result.error).toMatchObject({ code: "INDEX_OUT_OF_BOUNDS", command: { name: "array-access" } })
+        expect(result.error?.message).toContain("Index 9 out of bounds")
+
+        const nested = await superSelector.execute("#list li | map(| textContent | split('') | [4])")
+        expect(nested.error?.code).toBe("INDEX_OUT_OF_BOUNDS")
+    })
+
+    it("should only fail on the listed codes", async () => {
+        superSelector.configure({ strict: ["INDEX_OUT_OF_BOUNDS"] })
+
+        const lenient = await superSelector.execute("#list li | dataset | id")
+        expect(lenient.value).toEqual(["1", null, "3"])
+
+        const strict = await superSelector.execute("#list li | [9] | id || #list | id")
+        expect(strict.value).toBe("list")
+    })
+
+    it("should accept strict as a per-call option", async () => {
+        const strict = await superSelector.execute("#list | checked()", document, { strict: ["UNCHECKED"] })
+        expect(strict.success).toBe(false)
+        expect(strict.error).toMatchObject({ code: "UNCHECKED", message: "Not checked" })
+
+        const lenient = await superSelector.execute("#list | checked()")
+        expect(lenient.errors).toHaveLength(1)
+    })
+
+    it("should keep the warnings of each selector apart in a batch", async () => {
+        const results = await superSelector.executeMany({
+            missing: "#list li | [4] | id",
+            title: "#list li | [0] | textContent",
+        })
+
+        expect(results.missing.errors.map((warning) => warning.code)).toEqual(["INDEX_OUT_OF_BOUNDS", "NULL_VALUE"])
+        expect(results.title.errors).toEqual([])
+    })
+})
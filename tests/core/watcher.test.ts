@@ -0,0 +1,148 @@
+/**
+ * @jest-environment jsdom
+ */
+import { SuperSelector } from "../../src/core/super-selector"
+
+const settle = (ms = 30) => new Promise((resolve) => setTimeout(resolve, ms))
+
+describe("Watch", () => {
+    let superSelector: SuperSelector
+
+    beforeEach(() => {
+        document.body.innerHTML = `
+            <div id="cart">
+                <span class="total">10</span>
+                <ul class="items"><li>A</li></ul>
+            </div>
+            <aside id="ads"><p>Ad</p></aside>
+        `
+        superSelector = new SuperSelector()
+    })
+
+    afterEach(() => {
+        superSelector.destroy()
+    })
+
+    const cart = () => document.getElementById("cart")!
+    const setTotal = (text: string) => (cart().querySelector(".total")!.textContent = text)
+
+    it("should call back when the result changes", async () => {
+        const callback = jest.fn()
+        superSelector.watch("#cart .total | textContent", document, callback, { debounce: 5 })
+        await settle()
+
+        setTotal("12")
+        await settle()
+        expect(callback).toHaveBeenCalledTimes(1)
+        expect(callback).toHaveBeenCalledWith("12", expect.objectContaining({ success: true, value: "12" }))
+
+        // A mutation that leaves the result as it was
+        cart().setAttribute("data-seen", "yes")
+        await settle()
+        expect(callback).toHaveBeenCalledTimes(1)
+    })
+
+    it("should coalesce a burst of mutations into one run", async () => {
+        const runs = jest.fn()
+        superSelector.on("execution:start", runs)
+        const callback = jest.fn()
+        superSelector.watch("#cart .total | textContent", document, callback, { debounce: 10 })
+        await settle()
+        runs.mockClear()
+
+        setTotal("11")
+        setTotal("12")
+        cart().querySelector(".items")!.insertAdjacentHTML("beforeend", "<li>B</li>")
+        await settle(60)
+
+        expect(runs).toHaveBeenCalledTimes(1)
+        expect(callback.mock.calls).toEqual([["12", expect.anything()]])
+    })
+
+    it("should report the first result with immediate", async () => {
+        const callback = jest.fn()
+        superSelector.watch("#cart .total | textContent", document, callback, { immediate: true })
+        await settle()
+        expect(callback).toHaveBeenCalledWith("10", expect.anything())
+    })
+
+    it("should compare elements by identity and support custom equality", async () => {
+        const identity = jest.fn()
+        superSelector.watch("#cart li", document, identity, { debounce: 5, equality: "identity" })
+        const byCount = jest.fn()
+        superSelector.watch("#cart li", document, byCount, {
+            debounce: 5,
+            equality: (previous, next) => [previous].flat().length === [next].flat().length,
+        })
+        await settle()
+
+        cart().querySelector("li")!.textContent = "Renamed"
+        await settle()
+        expect(identity).not.toHaveBeenCalled()
+
+        cart().querySelector(".items")!.insertAdjacentHTML("beforeend", "<li>B</li>")
+        await settle()
+        expect(identity).toHaveBeenCalledTimes(1)
+        expect(identity.mock.calls[0][0]).toHaveLength(2)
+        expect(byCount).toHaveBeenCalledTimes(1)
+    })
+
+    it("should only observe the element of a leading id and follow it when replaced", async () => {
+        const runs = jest.fn()
+        superSelector.on("execution:start", runs)
+        const callback = jest.fn()
+        superSelector.watch("#cart .total | textContent", document, callback, { debounce: 5 })
+        await settle()
+        runs.mockClear()
+
+        document.querySelector("#ads p")!.textContent = "Other ad"
+        await settle()
+        expect(runs).not.toHaveBeenCalled()
+
+        cart().outerHTML = `<div id="cart"><span class="total">20</span></div>`
+        await settle()
+        expect(callback).toHaveBeenLastCalledWith("20", expect.anything())
+
+        setTotal("25")
+        await settle()
+        expect(callback).toHaveBeenLastCalledWith("25", expect.anything())
+    })
+
+    it.each(["#cart | nextElementSibling | textContent", "#cart | xpath('//aside/p') | textContent"])(
+        "should observe the whole root when %s leaves the id's element",
+        async (selector) => {
+            const callback = jest.fn()
+            superSelector.watch(selector, document, callback, { debounce: 5 })
+            await settle()
+
+            document.querySelector("#ads p")!.textContent = "Other ad"
+            await settle()
+            expect(callback).toHaveBeenCalledWith("Other ad", expect.anything())
+        },
+    )
+
+    it("should stop after unsubscribe and on destroy", async () => {
+        const callback = jest.fn()
+        const unsubscribe = superSelector.watch("#cart .total | textContent", document, callback, { debounce: 5 })
+        const other = jest.fn()
+        superSelector.watch("#cart .total | textContent", document, other, { debounce: 5 })
+        await settle()
+
+        unsubscribe()
+        setTotal("30")
+        await settle()
+        expect(callback).not.toHaveBeenCalled()
+        expect(other).toHaveBeenCalledTimes(1)
+
+        superSelector.destroy()
+        setTotal("40")
+        await settle()
+        expect(other).toHaveBeenCalledTimes(1)
+    })
+
+    it("should throw a ParseError for invalid selectors", () => {
+        expect(() => superSelector.watch("#cart | [x]", document, jest.fn())).toThrow(
+            expect.objectContaining({ code: "PARSE_ERROR" }),
+        )
+    })
+})
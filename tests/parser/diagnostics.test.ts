@@ -0,0 +1,61 @@
+import { Parser } from "../../src/parser/parser"
+import { renderSnippet } from "../../src/parser/diagnostics"
+
+describe("Parse diagnostics", () => {
+    let parser: Parser
+
+    beforeEach(() => {
+        parser = new Parser()
+    })
+
+    it("should report a span, code and caret snippet", () => {
+        const result = parser.parse('a | getAttribute("x" "y")')
+        expect(result.isValid).toBe(false)
+        expect(result.diagnostics).toHaveLength(1)
+        expect(result.diagnostics[0]).toMatchObject({ code: "EXPECTED_TOKEN", start: 21, end: 24 })
+        expect(result.diagnostics[0].snippet).toBe('a | getAttribute("x" "y")\n                     ^^^')
+        expect(result.errors).toEqual([result.diagnostics[0].message])
+    })
+
+    it("should keep positions relative to untrimmed input", () => {
+        const result = parser.parse("  a | | b")
+        expect(result.diagnostics[0]).toMatchObject({ code: "UNEXPECTED_TOKEN", start: 6, end: 7 })
+    })
+
+    it("should recover at pipe boundaries and report every bad segment", () => {
+        const result = parser.parse("#list li | [x] | textContent | getAttribute('a' 'b') | trim()")
+        expect(result.isValid).toBe(false)
+        expect(result.diagnostics.map((d) => d.code)).toEqual(["INVALID_ARRAY_INDEX", "EXPECTED_TOKEN"])
+        expect(result.commands).toEqual([])
+    })
+
+    it("should recover inside object fields", () => {
+        const result = parser.parse("{ a: [x], b: textContent, c: getAttribute(| ) }")
+        expect(result.diagnostics.map((d) => d.code)).toEqual(["INVALID_ARRAY_INDEX", "EMPTY_PIPELINE"])
+    })
+
+    it("should report lexical errors without duplicating them", () => {
+        const unterminated = parser.parse('a | getAttribute("href')
+        expect(unterminated.diagnostics).toHaveLength(1)
+        expect(unterminated.diagnostics[0]).toMatchObject({ code: "UNTERMINATED_STRING", start: 17 })
+
+        const unexpected = parser.parse("a | b^ | [y]")
+        expect(unexpected.diagnostics.map((d) => d.code)).toEqual(["UNEXPECTED_CHARACTER", "INVALID_ARRAY_INDEX"])
+    })
+
+    it.each(["a | @ | b", "a | $ | b", "a | % | b"])("should report a skipped character in %s once", (selector) => {
+        const result = parser.parse(`${selector} | [x]`)
+        expect(result.diagnostics.map((d) => d.code)).toEqual(["UNEXPECTED_CHARACTER", "INVALID_ARRAY_INDEX"])
+        expect(result.diagnostics[0]).toMatchObject({ start: 4, end: 5 })
+    })
+
+    it("should point expression errors at the expression", () => {
+        const result = parser.parse("li | where(stock >)")
+        expect(result.diagnostics[0]).toMatchObject({ code: "INVALID_EXPRESSION", start: 11, end: 18 })
+    })
+
+    it("should render carets on the line containing the span", () => {
+        expect(renderSnippet("a |\nb | [x]", { start: 9, end: 10 })).toBe("b | [x]\n     ^")
+        expect(renderSnippet("abc", { start: 3, end: 4 })).toBe("abc\n   ^")
+    })
+})
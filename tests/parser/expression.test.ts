@@ -0,0 +1,73 @@
+import { ExpressionParser, evaluateExpression } from "../../src/parser/expression"
+
+describe("Expression language", () => {
+    let parser: ExpressionParser
+
+    beforeEach(() => {
+        parser = new ExpressionParser()
+    })
+
+    const evaluate = (source: string, item: any) => evaluateExpression(parser.parse(source), item)
+
+    describe("Parsing", () => {
+        it("should parse comparisons on property paths", () => {
+            expect(parser.parse("dataset.stock > 0")).toEqual({
+                kind: "comparison",
+                operator: ">",
+                left: { kind: "path", segments: ["dataset", "stock"] },
+                right: { kind: "literal", value: 0 },
+            })
+        })
+
+        it("should give && precedence over ||", () => {
+            const expression = parser.parse("a || b && c")
+            expect(expression).toMatchObject({ kind: "logical", operator: "||", right: { operator: "&&" } })
+        })
+
+        it("should parse bracket keys, negation and grouping", () => {
+            expect(parser.parse("!(attributes['data-x'] == null)")).toEqual({
+                kind: "not",
+                operand: {
+                    kind: "comparison",
+                    operator: "==",
+                    left: { kind: "path", segments: ["attributes", "data-x"] },
+                    right: { kind: "literal", value: null },
+                },
+            })
+        })
+
+        it("should reject invalid expressions", () => {
+            expect(() => parser.parse("")).toThrow()
+            expect(() => parser.parse("a >")).toThrow()
+            expect(() => parser.parse("a b")).toThrow()
+            expect(() => parser.parse("a ~= '['")).toThrow()
+            expect(() => parser.parse("a = 1")).toThrow()
+        })
+    })
+
+    describe("Evaluation", () => {
+        const item = { dataset: { stock: "5" }, className: "item active", title: "", count: 0 }
+
+        it("should compare numeric strings as numbers", () => {
+            expect(evaluate("dataset.stock > 0", item)).toBe(true)
+            expect(evaluate("dataset.stock == 5", item)).toBe(true)
+            expect(evaluate("dataset.stock < 3", item)).toBe(false)
+        })
+
+        it("should match regular expressions", () => {
+            expect(evaluate("className ~= 'active'", item)).toBe(true)
+            expect(evaluate("className ~= '^active'", item)).toBe(false)
+        })
+
+        it("should combine conditions", () => {
+            expect(evaluate("dataset.stock > 0 && className ~= 'active'", item)).toBe(true)
+            expect(evaluate("count > 0 || title != ''", item)).toBe(false)
+            expect(evaluate("!count", item)).toBe(true)
+        })
+
+        it("should resolve missing paths to null", () => {
+            expect(evaluate("missing.deep == null", item)).toBe(true)
+            expect(evaluate("missing > 1", item)).toBe(false)
+        })
+    })
+})
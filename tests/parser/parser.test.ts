@@ -58,6 +58,39 @@ describe("Parser (Refactored)", () => {
         })
     })
 
+    describe("Pipeline argument parsing", () => {
+        it("should parse sub-pipelines as function arguments", () => {
+            const result = parser.parse("li | filter(| textContent | includes('Sale'))")
+            expect(result.isValid).toBe(true)
+            expect(result.commands[1]).toEqual({
+                type: "function",
+                name: "filter",
+                args: [
+                    {
+                        type: "pipe",
+                        name: "pipe",
+                        commands: [
+                            { type: "property", name: "textContent" },
+                            { type: "function", name: "includes", args: ["Sale"] },
+                        ],
+                    },
+                ],
+            })
+        })
+
+        it("should end CSS segments at the closing parenthesis or comma", () => {
+            const result = parser.parse(".card | sortBy(| .price | textContent, 'desc')")
+            expect(result.isValid).toBe(true)
+            expect(result.commands[1]).toMatchObject({
+                args: [{ commands: [{ type: "css-selector", selector: ".price" }, { name: "textContent" }] }, "desc"],
+            })
+        })
+
+        it("should reject empty pipeline arguments", () => {
+            expect(parser.parse("li | map(|)").isValid).toBe(false)
+        })
+    })
+
     describe("Property parsing", () => {
         it("should parse property access after a selector", () => {
             const result = parser.parse("div.class | textContent")
@@ -70,6 +103,105 @@ describe("Parser (Refactored)", () => {
         })
     })
 
+    describe("Explicit segments", () => {
+        const css = (selector: string) => ({ type: "css-selector", name: "css-selector", selector })
+
+        it("should keep pipes inside quotes and brackets in a CSS segment", () => {
+            expect(parser.parse('a[title="x|y"] | textContent').commands).toEqual([
+                css('a[title="x|y"]'),
+                { type: "property", name: "textContent" },
+            ])
+            expect(parser.parse("svg [xlink|href]").commands).toEqual([css("svg [xlink|href]")])
+        })
+
+        it("should parse css(...) and $\"...\" as CSS selectors anywhere in a pipeline", () => {
+            expect(parser.parse(`.card | css("button") | $'a[title="x|y"]'`).commands).toEqual([
+                css(".card"),
+                css("button"),
+                css('a[title="x|y"]'),
+            ])
+        })
+
+        it("should parse @name as a property at the start of a pipeline", () => {
+            expect(parser.parse(`@textContent`).commands).toEqual([{ type: "property", name: "textContent" }])
+            expect(parser.parse(`{ text: @textContent, id: @"data-id" }`).commands).toEqual([
+                {
+                    type: "object",
+                    name: "object",
+                    fields: [
+                        { key: "text", commands: [{ type: "property", name: "textContent" }] },
+                        { key: "id", commands: [{ type: "property", name: "data-id" }] },
+                    ],
+                },
+            ])
+        })
+
+        it("should parse XPath segments and xpath(...) as XPath commands", () => {
+            const xpath = (expression: string) => ({ type: "xpath", name: "xpath", expression })
+            expect(parser.parse("//td[text()='a|b']/following-sibling::td | textContent").commands).toEqual([
+                xpath("//td[text()='a|b']/following-sibling::td"),
+                { type: "property", name: "textContent" },
+            ])
+            expect(parser.parse("table | .//tr | ../caption").commands).toEqual([
+                css("table"),
+                xpath(".//tr"),
+                xpath("../caption"),
+            ])
+            expect(parser.parse("ul | xpath('./li[1] | ./li[last()]')").commands).toEqual([
+                css("ul"),
+                xpath("./li[1] | ./li[last()]"),
+            ])
+        })
+
+        it("should reject malformed explicit segments", () => {
+            expect(parser.parse("a | css(span)").diagnostics[0].code).toBe("INVALID_ARGUMENT")
+            expect(parser.parse("a | $''").diagnostics[0].code).toBe("EMPTY_SELECTOR")
+            expect(parser.parse("a | $span").diagnostics[0].code).toBe("UNEXPECTED_CHARACTER")
+            expect(parser.parse("a | @").diagnostics[0].code).toBe("UNEXPECTED_CHARACTER")
+            expect(parser.parse("a | xpath('')").diagnostics[0].code).toBe("EMPTY_SELECTOR")
+        })
+    })
+
+    describe("Property path parsing", () => {
+        it("should parse dotted paths after the first segment", () => {
+            const result = parser.parse("li | dataset.itemId")
+            expect(result.isValid).toBe(true)
+            expect(result.commands[1]).toEqual({
+                type: "property-path",
+                name: "property-path",
+                segments: [
+                    { key: "dataset", optional: false },
+                    { key: "itemId", optional: false },
+                ],
+            })
+        })
+
+        it("should parse optional chaining and bracket keys", () => {
+            expect(parser.parse("li | style?.display").commands[1]).toMatchObject({
+                segments: [
+                    { key: "style", optional: false },
+                    { key: "display", optional: true },
+                ],
+            })
+            expect(parser.parse(`li | attributes['data-x']?.["value"] | children[0]`).commands.slice(1)).toMatchObject([
+                {
+                    segments: [
+                        { key: "attributes", optional: false },
+                        { key: "data-x", optional: false },
+                        { key: "value", optional: true },
+                    ],
+                },
+                { segments: [{ key: "children" }, { key: "0" }] },
+            ])
+        })
+
+        it("should keep tag.class segments as CSS selectors", () => {
+            expect(parser.parse("div.my-class").commands[0].type).toBe("css-selector")
+            expect(parser.parse("ul | li.active").commands[1].type).toBe("css-selector")
+            expect(parser.parse("ul | .item.active").commands[1].type).toBe("css-selector")
+        })
+    })
+
     describe("Array access parsing", () => {
         it("should parse array access", () => {
             const result = parser.parse("[0]")
@@ -92,6 +224,249 @@ describe("Parser (Refactored)", () => {
         })
     })
 
+    describe("Array slice parsing", () => {
+        it("should parse slices with start and end", () => {
+            const result = parser.parse("[0:5]")
+            expect(result.isValid).toBe(true)
+            expect(result.commands[0]).toEqual({
+                type: "array-slice",
+                name: "array-slice",
+                start: 0,
+                end: 5,
+                step: null,
+            })
+        })
+
+        it("should parse slices with omitted bounds", () => {
+            expect(parser.parse("[-3:]").commands[0]).toMatchObject({ start: -3, end: null, step: null })
+            expect(parser.parse("[::2]").commands[0]).toMatchObject({ start: null, end: null, step: 2 })
+            expect(parser.parse("[::-1]").commands[0]).toMatchObject({ start: null, end: null, step: -1 })
+        })
+
+        it("should parse slices after other commands", () => {
+            const result = parser.parse(".review-item | p('textContent') | [0:5]")
+            expect(result.isValid).toBe(true)
+            expect(result.commands[2].type).toBe("array-slice")
+        })
+
+        it("should reject malformed slices", () => {
+            expect(parser.parse("[0:5:1:2]").isValid).toBe(false)
+            expect(parser.parse("[0:a]").isValid).toBe(false)
+        })
+    })
+
+    describe("Object projection parsing", () => {
+        it("should parse fields as sub-pipelines", () => {
+            const result = parser.parse("{ title: h1 | textContent, price: .price | textContent }")
+            expect(result.isValid).toBe(true)
+            expect(result.commands[0]).toEqual({
+                type: "object",
+                name: "object",
+                fields: [
+                    {
+                        key: "title",
+                        commands: [
+                            { type: "css-selector", name: "css-selector", selector: "h1" },
+                            { type: "property", name: "textContent" },
+                        ],
+                    },
+                    {
+                        key: "price",
+                        commands: [
+                            { type: "css-selector", name: "css-selector", selector: ".price" },
+                            { type: "property", name: "textContent" },
+                        ],
+                    },
+                ],
+            })
+        })
+
+        it("should parse projections after a selector", () => {
+            const result = parser.parse(".card | { name: h2 | textContent, link: a | href }")
+            expect(result.isValid).toBe(true)
+            expect(result.commands).toHaveLength(2)
+            expect(result.commands[1].type).toBe("object")
+        })
+
+        it("should parse quoted keys, nested objects and function arguments", () => {
+            const result = parser.parse(`{ "full name": h2 | getAttribute("data-a, b"), meta: { id: id } }`)
+            expect(result.isValid).toBe(true)
+            expect(result.commands[0]).toMatchObject({
+                fields: [
+                    { key: "full name", commands: [{ selector: "h2" }, { name: "getAttribute", args: ["data-a, b"] }] },
+                    { key: "meta", commands: [{ type: "object", fields: [{ key: "id" }] }] },
+                ],
+            })
+        })
+
+        it("should reject malformed projections", () => {
+            expect(parser.parse("{ title h1 }").isValid).toBe(false)
+            expect(parser.parse("{ title: h1").isValid).toBe(false)
+            expect(parser.parse("{}").isValid).toBe(false)
+        })
+    })
+
+    describe("Expression argument parsing", () => {
+        it("should parse where() arguments as predicate expressions", () => {
+            const result = parser.parse("li | where(dataset.stock > 0 && className ~= 'active|sale')")
+            expect(result.isValid).toBe(true)
+            expect(result.commands[1]).toMatchObject({
+                type: "function",
+                name: "where",
+                args: [
+                    {
+                        type: "expression",
+                        source: "dataset.stock > 0 && className ~= 'active|sale'",
+                        expression: { kind: "logical", operator: "&&" },
+                    },
+                ],
+            })
+        })
+
+        it("should reject invalid expressions", () => {
+            expect(parser.parse("li | where(dataset.stock >)").isValid).toBe(false)
+            expect(parser.parse("li | where(a > 1").isValid).toBe(false)
+        })
+    })
+
+    describe("Fallback parsing", () => {
+        it("should parse alternative pipelines", () => {
+            const result = parser.parse(".price-new | textContent || .price-old | textContent")
+            expect(result.isValid).toBe(true)
+            expect(result.commands).toEqual([
+                {
+                    type: "fallback",
+                    name: "fallback",
+                    branches: [
+                        [
+                            { type: "css-selector", name: "css-selector", selector: ".price-new" },
+                            { type: "property", name: "textContent" },
+                        ],
+                        [
+                            { type: "css-selector", name: "css-selector", selector: ".price-old" },
+                            { type: "property", name: "textContent" },
+                        ],
+                    ],
+                },
+            ])
+        })
+
+        it("should parse fallbacks inside fields and pipeline arguments", () => {
+            const result = parser.parse("{ price: .new || .old } | map(| title || id)")
+            expect(result.isValid).toBe(true)
+            expect(result.commands[0]).toMatchObject({ fields: [{ commands: [{ type: "fallback" }] }] })
+            expect(result.commands[1]).toMatchObject({
+                args: [{ commands: [{ type: "fallback", branches: [[{ type: "property" }], [{ type: "property" }]] }] }],
+            })
+        })
+
+        it("should reject empty alternatives", () => {
+            expect(parser.parse(".price ||").isValid).toBe(false)
+            expect(parser.parse("|| .price").isValid).toBe(false)
+        })
+    })
+
+    describe("Command spans", () => {
+        it("should record where each command came from, including nested ones", () => {
+            const source = "li | map(| getAttribute('x')) || a | [0]"
+            const result = parser.parse(source)
+            const [fallback] = result.commands as any[]
+            const [li, map] = fallback.branches[0]
+            const text = (command: any) => {
+                const span = result.spans.get(command)!
+                return source.slice(span.start, span.end)
+            }
+
+            expect(text(fallback)).toBe(source)
+            expect(text(li)).toBe("li")
+            expect(text(map)).toBe("map(| getAttribute('x'))")
+            expect(text(map.args[0].commands[0])).toBe("getAttribute('x')")
+            expect(text(fallback.branches[1][1])).toBe("[0]")
+        })
+    })
+
+    describe("Chained calls", () => {
+        it("should parse dot-chained calls like piped calls", () => {
+            const chained = parser.parse("a | getAttribute('href').trim() . toUpperCase() | [0]")
+            expect(chained.diagnostics).toEqual([])
+            expect(chained.commands).toEqual(parser.parse("a | getAttribute('href') | trim() | toUpperCase() | [0]").commands)
+            expect(parser.parse("li | map(| textContent.trim()).join(', ')").commands).toEqual(
+                parser.parse("li | map(| textContent.trim()) | join(', ')").commands,
+            )
+        })
+
+        it("should record a span per call in the chain", () => {
+            const source = "a | getAttribute('x').trim()"
+            const result = parser.parse(source)
+            expect(result.commands.map((command) => result.spans.get(command))).toEqual([
+                { start: 0, end: 1 },
+                { start: 4, end: 21 },
+                { start: 22, end: 28 },
+            ])
+        })
+
+        it("should keep dots that do not start a call as CSS", () => {
+            expect(parser.parse("div:not(.a).b").commands).toEqual([
+                { type: "css-selector", name: "css-selector", selector: "div:not(.a).b" },
+            ])
+        })
+    })
+
+    describe("Macros", () => {
+        const macros = new Map([
+            ["cleanText", { name: "cleanText", body: "textContent | trim()", arity: 0 }],
+            ["attr", { name: "attr", body: "getAttribute($1) | trim()", arity: 1 }],
+            ["firstOf", { name: "firstOf", body: "$1 | [0] || $2", arity: 2 }],
+            ["loopA", { name: "loopA", body: "a | @loopB", arity: 0 }],
+            ["loopB", { name: "loopB", body: "@loopA", arity: 0 }],
+        ])
+
+        beforeEach(() => {
+            parser = new Parser({ macros })
+        })
+
+        it("should expand @name and name(...) calls inline", () => {
+            expect(parser.parse("li | @cleanText | [0]").commands).toEqual(
+                new Parser().parse("li | textContent | trim() | [0]").commands,
+            )
+            expect(parser.parse("a | attr('href')").commands).toEqual(
+                new Parser().parse("a | getAttribute('href') | trim()").commands,
+            )
+            expect(parser.parse("div | map(| firstOf(li, | @cleanText))").commands).toEqual(
+                new Parser().parse("div | map(| li | [0] || | textContent | trim())").commands,
+            )
+        })
+
+        it("should leave bare names as properties", () => {
+            expect(parser.parse("a | cleanText").commands[1]).toEqual({ type: "property", name: "cleanText" })
+        })
+
+        it("should map expanded commands to the span of the call", () => {
+            const source = "a | attr('x')"
+            const result = parser.parse(source)
+            for (const command of result.commands.slice(1)) {
+                expect(result.spans.get(command)).toEqual({ start: 4, end: source.length })
+            }
+        })
+
+        it("should report argument count mismatches, cycles and errors in macro bodies", () => {
+            expect(parser.parse("a | @attr").diagnostics[0]).toMatchObject({
+                code: "MACRO_ARGUMENTS",
+                message: "Macro 'attr' expects 1 argument, got 0",
+                start: 4,
+                end: 9,
+            })
+            expect(parser.parse("li | @loopA").diagnostics[0]).toMatchObject({
+                code: "MACRO_CYCLE",
+                message: "Macro cycle: loopA -> loopB -> loopA",
+                start: 5,
+                end: 11,
+            })
+            expect(parser.parse("a | attr([0)").diagnostics[0].code).toBe("INVALID_ARGUMENT")
+            expect(parser.parse("a | firstOf(li, 'x')").diagnostics[0].message).toContain("In macro 'firstOf':")
+        })
+    })
+
     describe("Piped commands", () => {
         it("should parse piped commands", () => {
             const result = parser.parse("div.class | textContent | trim()")
@@ -0,0 +1,107 @@
+import { Parser } from "../../src/parser/parser"
+import { Printer } from "../../src/parser/printer"
+import { ValidationError } from "../../src/core/errors"
+import type { Command } from "../../src/types"
+
+describe("Printer", () => {
+    let parser: Parser
+    let printer: Printer
+
+    beforeEach(() => {
+        parser = new Parser()
+        printer = new Printer()
+    })
+
+    const roundTrip = (selector: string) => {
+        const parsed = parser.parse(selector)
+        expect(parsed.diagnostics).toEqual([])
+        const printed = printer.print(parsed.commands)
+        expect(parser.parse(printed).commands).toEqual(parsed.commands)
+        return printed
+    }
+
+    it.each([
+        "div.my-class",
+        "div#container > ul li:nth-child(2)",
+        "#list li | textContent",
+        "a | getAttribute('href') | trim()",
+        "li | [0]",
+        "li | [-1]",
+        "li | [1:-1]",
+        "li | [::2]",
+        "li | [:3:-1]",
+        ".card | { name: h2 | textContent, link: a | href }",
+        "{ 'the title': h1 | textContent || h2 | textContent }",
+        ".price-new | textContent || .price-old | textContent || span",
+        "li | filter(| textContent | includes('Sale'))",
+        "li | sortBy(| dataset | price, 'desc')",
+        "li | some(| p('x') || className)",
+        "li | where(dataset.stock > 0 && className ~= 'a(b|c)')",
+        "a | dataset.itemId",
+        "a | style?.display",
+        "a | attributes['data-x']?.value",
+        "a | items[0].label",
+        "{ id: dataset.id }",
+        "a | replace('\\n', ' ') | split(\"it's\")",
+        'a[title="x|y"] | @textContent',
+        "{ label: @textContent, link: css('a') }",
+        "table | .//tr[td] | xpath('./a | ./b')",
+    ])("should round-trip %s", (selector) => {
+        roundTrip(selector)
+    })
+
+    it("should normalize quoting, numbers and spacing", () => {
+        expect(roundTrip(`a|getAttribute( "href" )|slice(0,5)|[ 1 : 3 ]`)).toBe(
+            "a | getAttribute('href') | slice(0, 5) | [1:3]",
+        )
+        expect(roundTrip(`a | split(href)`)).toBe("a | split('href')")
+        expect(roundTrip(`a | replace("it's", "a\\\\b")`)).toBe("a | replace('it\\'s', 'a\\\\b')")
+        expect(roundTrip(`{title:h1|textContent,"x y":a}`)).toBe("{ title: h1 | textContent, 'x y': a }")
+    })
+
+    it("should bracket a dotted path that would read as a tag.class selector", () => {
+        const commands: Command[] = [
+            { type: "css-selector", name: "css-selector", selector: "a" },
+            {
+                type: "property-path",
+                name: "property-path",
+                segments: [
+                    { key: "li", optional: false },
+                    { key: "active", optional: false },
+                ],
+            },
+        ]
+        const printed = printer.print(commands)
+        expect(printed).toBe("a | li['active']")
+        expect(parser.parse(printed).commands).toEqual(commands)
+    })
+
+    it("should fall back to explicit segments where the heuristic would misread a command", () => {
+        const property: Command = { type: "property", name: "textContent" }
+        const span: Command = { type: "css-selector", name: "css-selector", selector: "span" }
+        const odd: Command = { type: "property", name: "odd name" }
+
+        // A bare word at the start of a pipeline reads as a tag, and after a pipe as a property
+        expect(printer.print([property])).toBe("@textContent")
+        expect(printer.print([span, span])).toBe("span | css('span')")
+        expect(printer.print([span, odd])).toBe("span | @'odd name'")
+
+        // An unclosed quote would run on into the next segment
+        const open: Command = { type: "css-selector", name: "css-selector", selector: "a[title='x" }
+        expect(printer.print([open, property])).toBe("css('a[title=\\'x') | textContent")
+
+        for (const commands of [[property], [span, span], [span, odd], [open, property]]) {
+            expect(parser.parse(printer.print(commands)).commands).toEqual(commands)
+        }
+    })
+
+    it("should reject commands that have no selector form", () => {
+        const span: Command = { type: "css-selector", name: "css-selector", selector: "span" }
+        const fallback: Command = { type: "fallback", name: "fallback", branches: [[span], [span]] }
+
+        expect(() => printer.print([span, fallback])).toThrow("only command")
+        expect(() => printer.print([span, { type: "array-access", name: "array-access", index: 1.5 }])).toThrow(
+            ValidationError,
+        )
+    })
+})